@@ -1,5 +1,6 @@
 import createDOMPurify from "dompurify";
 import type { WindowLike } from "dompurify";
+import type { TrustedHTML, TrustedTypePolicy } from "trusted-types/lib/index.js";
 import postcss from "postcss";
 import valueParser from "postcss-value-parser";
 
@@ -20,10 +21,159 @@ export type SanitizerConfig = {
    */
   dangerouslyAllowJavaScript?: boolean;
   allowDataImageUrls?: boolean;
+  /**
+   * When `true`, `rel="noopener noreferrer"` is merged into every `<a>`,
+   * `<area>`, and `<form>` whose `target` attribute survives filtering, so an
+   * allowed `target` cannot open a tabnabbing gap.
+   */
+  addRelNoopener?: boolean;
+  /**
+   * Absolute URL that relative URLs are resolved against for `@host` rules.
+   * Without it, a relative URL has no host to check and fails every `@host`
+   * rule.
+   */
+  baseUrl?: string;
   maxPasses?: number;
+  /** Inputs longer than this many UTF-16 code units throw `ResourceLimitError`. */
+  maxInputLength?: number;
+  /** Documents with more elements than this throw `ResourceLimitError`. */
+  maxElements?: number;
+  /**
+   * Deepest element nesting allowed, counting children of `<body>` as depth 1
+   * (default: no limit). What happens to deeper elements is set by
+   * `excessDepth`.
+   */
+  maxDepth?: number;
+  /**
+   * `"throw"` (default) rejects a document nested deeper than `maxDepth` with
+   * `ResourceLimitError`; `"flatten"` replaces each element at the first
+   * excess level with its text content.
+   */
+  excessDepth?: "throw" | "flatten";
+  /**
+   * What happens to an allowed element that a `parent>child` rule places
+   * elsewhere: `"unwrap"` (default) keeps its children, `"remove"` drops it
+   * with its children, `"wrap"` moves it into a new element of the first
+   * allowed parent tag.
+   */
+  misplacedElements?: "unwrap" | "remove" | "wrap";
+  /**
+   * What happens to an element whose tag is not allowed. Defaults to
+   * `"unwrap"`, except that `iframe`, `object`, `noscript`, and `title` are
+   * removed unless set to `"unwrap"` by name. Pass a map keyed by tag (`"*"`
+   * for every other tag) to choose per tag.
+   */
+  disallowedElements?: ElementDisposition | Record<string, ElementDisposition>;
+  /**
+   * What happens to an allowed element over its global or scoped count.
+   * Defaults to `"remove"`; accepts the same forms as `disallowedElements`.
+   */
+  overCountElements?: ElementDisposition | Record<string, ElementDisposition>;
   outputFormat?: "document" | "fragment";
+  /** Cut the sanitized output down to a preview. See `TruncateOptions`. */
+  truncate?: TruncateOptions;
+  /** Custom element, attribute, CSS, and URL handling. See `SanitizerHooks`. */
+  hooks?: SanitizerHooks;
+  /**
+   * Name of the Trusted Types policy that `sanitizeToTrustedHTML` and
+   * `registerDefaultTrustedTypesPolicy` create for the sanitizer's own use
+   * (default: `"html-allowlist"`). A page with a `trusted-types` CSP
+   * directive must list it.
+   */
+  trustedTypesPolicyName?: string;
+};
+
+/**
+ * Options that bound a single sanitizing call. They are passed per call
+ * rather than compiled into the policy, so one policy can serve requests
+ * that each carry their own deadline or signal.
+ */
+export type SanitizeOptions = {
+  /**
+   * Wall-clock budget for the call, in milliseconds. Checked between passes
+   * and periodically while processing elements; exceeding it throws
+   * `SanitizeTimeoutError`.
+   */
+  deadlineMs?: number;
+  /** Aborting this signal stops the call in progress with `SanitizeTimeoutError`. */
+  signal?: AbortSignal;
+};
+
+/**
+ * What `beforeElement` does with an element: keep it for the normal checks
+ * (`"keep"` or nothing), drop it with its content, unwrap it, or replace it
+ * with the returned element. A replacement goes through the normal checks in
+ * place of the original; move the original's children into it to keep them.
+ */
+export type ElementHookResult = "keep" | "remove" | "unwrap" | Element | void;
+
+/**
+ * Custom logic run during the allowlist pass. Hooks only decide what is
+ * offered to the policy: whatever they keep or produce is still checked
+ * against the rules, and the safety nets (`<script>` removal, `on*`
+ * stripping, the dangerous-URL pre-filter, DOMPurify) run after them, so a
+ * hook cannot weaken the default posture. Hooks run on every pass of the
+ * fixed-point loop and must be idempotent: rewriting output they already
+ * rewrote has to leave it unchanged.
+ */
+export type SanitizerHooks = {
+  /** Called for each element before its tag is checked. */
+  beforeElement?: (element: Element, tag: string) => ElementHookResult;
+  /**
+   * Called for each element that survived its checks. Attribute changes made
+   * here are filtered again against the policy.
+   */
+  afterElement?: (element: Element, tag: string) => "keep" | "remove" | "unwrap" | void;
+  /** Return `false` to drop the attribute or a string to replace its value. */
+  onAttribute?: (attribute: { element: Element; tag: string; name: string; value: string }) => string | false | void;
+  /**
+   * Called for each declaration in an allowed `style` attribute (`tag` is the
+   * element) or `<style>` rule (`tag` is `"style"`, with `selector`). Return
+   * `false` to drop it or a string to replace its value.
+   */
+  onStyleDeclaration?: (declaration: {
+    tag: string;
+    selector?: string;
+    property: string;
+    value: string;
+  }) => string | false | void;
+  /**
+   * Called for each URL in a URL-bearing attribute (each candidate of a
+   * `srcset`), after `onAttribute`. Return `false` to drop the attribute or a
+   * string to replace the URL.
+   */
+  onUrl?: (url: { element: Element; tag: string; attribute: string; url: string }) => string | false | void;
+};
+
+/**
+ * Truncation applied to the sanitized document before it is serialized.
+ * Content after the cut is removed, elements that were open at the cut are
+ * closed, and `ellipsis` is added where the content was cut. Output within the
+ * limit is returned unchanged.
+ */
+export type TruncateOptions = {
+  /**
+   * What `limit` counts: visible text characters (the default; runs of
+   * whitespace count as one, and surrogate pairs are never split), words, or
+   * elements.
+   */
+  by?: "characters" | "words" | "elements";
+  limit: number;
+  /** Added where the content was cut. Defaults to `"…"`. */
+  ellipsis?: string;
 };
 
+/**
+ * `"unwrap"` keeps the element's children in its place, `"remove"` drops it
+ * with its children, `"escape"` replaces its start and end tags with text
+ * showing them literally (its children are kept and sanitized as usual), and
+ * `"replaceWith:<tag>"` turns it into a `<tag>` element
+ * (keeping attributes that tag allows, and its children) that is then checked
+ * like any other; if the replacement cannot be kept either, it falls back to
+ * the default.
+ */
+export type ElementDisposition = "unwrap" | "remove" | "escape" | `replaceWith:${string}`;
+
 declare const compiledPolicyBrand: unique symbol;
 
 /**
@@ -64,13 +214,329 @@ export class ConvergenceError extends Error {
   }
 }
 
+/**
+ * Thrown when input exceeds `maxInputLength`, `maxElements`, or `maxDepth`
+ * (with `excessDepth: "throw"`). Exposes the limit that was hit as
+ * `error.limit` and its configured value as `error.max`. Limits are checked
+ * before any element is processed, so an oversized document costs at most
+ * one parse. A stack overflow in the DOM implementation or a hook, on input
+ * within the limits, is reported as `"callStack"` with the `maxDepth` in
+ * effect (`Infinity` when none is set) as `error.max` and the original error
+ * as `error.cause`.
+ */
+export class ResourceLimitError extends Error {
+  readonly limit: "maxInputLength" | "maxElements" | "maxDepth" | "callStack";
+  readonly max: number;
+
+  constructor(
+    limit: "maxInputLength" | "maxElements" | "maxDepth" | "callStack",
+    max: number,
+    options?: { cause?: unknown }
+  ) {
+    super(
+      limit === "callStack"
+        ? `Input ${max === Infinity ? "" : `nested within maxDepth (${max}) `}exhausted the call stack; ` +
+            `${max === Infinity ? "set" : "lower"} maxDepth to reject or flatten such input before it is processed.`
+        : `Input exceeds ${limit} (${max}); it was rejected without being sanitized.`,
+      options
+    );
+    this.name = "ResourceLimitError";
+    this.limit = limit;
+    this.max = max;
+  }
+}
+
+/**
+ * Thrown when a call runs past `deadlineMs` or its `signal` is aborted.
+ * Exposes the number of passes that finished before it stopped as
+ * `error.passesCompleted`; for an aborted signal, `error.cause` is the
+ * signal's reason. No partial output is returned.
+ */
+export class SanitizeTimeoutError extends Error {
+  readonly passesCompleted: number;
+
+  constructor(passesCompleted: number, options?: { cause?: unknown }) {
+    super(
+      `Sanitization stopped after ${passesCompleted} completed pass${passesCompleted === 1 ? "" : "es"} ` +
+        `because ${options ? "its signal was aborted" : "it exceeded deadlineMs"}.`,
+      options
+    );
+    this.name = "SanitizeTimeoutError";
+    this.passesCompleted = passesCompleted;
+  }
+}
+
+/**
+ * Why `sanitizeWithReport` recorded an action: the kind of rule that did not
+ * permit something, or the safety net that removed it.
+ */
+export type SanitizeReason =
+  | "not-allowlisted"
+  | "count-exceeded"
+  | "scoped-count-exceeded"
+  | "misplaced"
+  | "value-constraint"
+  | "url-scheme"
+  | "url-host"
+  | "empty-after-filtering"
+  | "script"
+  | "style-not-allowed"
+  | "event-handler"
+  | "dangerous-url"
+  | "css-at-rule"
+  | "dangerous-css-function"
+  | "dangerous-css-property"
+  | "hook"
+  | "forced-attribute"
+  | "rename-rule"
+  | "max-depth"
+  | "truncate"
+  | "dompurify";
+
+/** One change the sanitizer made to the input. See `sanitizeWithReport`. */
+export type SanitizeAction = {
+  type:
+    | "element-removed"
+    | "element-unwrapped"
+    | "element-wrapped"
+    | "element-replaced"
+    | "element-renamed"
+    | "element-escaped"
+    | "element-flattened"
+    | "attribute-removed"
+    | "attribute-rewritten"
+    | "attribute-set"
+    | "css-rule-removed"
+    | "css-declaration-removed"
+    | "css-declaration-rewritten"
+    | "content-truncated";
+  reason: SanitizeReason;
+  /**
+   * The element the action applies to (for CSS in a `<style>` element,
+   * `style`; for truncation, `body`).
+   */
+  tag: string;
+  /** For `element-renamed` and `element-replaced`, the tag it now has. */
+  renamedTo?: string;
+  attribute?: string;
+  selector?: string;
+  property?: string;
+  /** The removed, rewritten, or overwritten value, truncated to 100 characters. */
+  value?: string;
+};
+
+export type SanitizeReport = {
+  html: string;
+  actions: SanitizeAction[];
+};
+
+type Reporter = ((action: SanitizeAction) => void) | undefined;
+
+/**
+ * Configuration for the browser HTML Sanitizer API (`element.setHTML(html,
+ * { sanitizer })`), as produced by `toSanitizerApiConfig`. Element and
+ * attribute names are in the HTML namespace.
+ */
+export type SanitizerApiConfig = {
+  elements: Array<{ name: string; attributes: string[] }>;
+  replaceWithChildrenElements?: string[];
+  attributes: string[];
+  comments: boolean;
+  dataAttributes: boolean;
+};
+
+/**
+ * Part of a policy that `SanitizerApiConfig` cannot express. The translation
+ * leaves such parts out rather than approximating them with something more
+ * permissive, except for structural limits (`tag-count`, `scoped-tag-count`,
+ * `nesting`), which setHTML simply does not enforce.
+ */
+export type SanitizerApiGap = {
+  feature:
+    | "tag-count"
+    | "scoped-tag-count"
+    | "nesting"
+    | "attribute-value"
+    | "attribute-prefix"
+    | "url-rule"
+    | "style"
+    | "forced-attribute"
+    | "rename"
+    | "disposition"
+    | "data-image-urls"
+    | "javascript"
+    | "config";
+  detail: string;
+};
+
+export type SanitizerApiTranslation = {
+  config: SanitizerApiConfig;
+  /** Empty when `config` enforces exactly what the policy does. */
+  unsupported: SanitizerApiGap[];
+};
+
+/**
+ * A policy written as data rather than rule strings, for
+ * `compilePolicyDocument`. `schema/policy-document.schema.json` in the package
+ * describes the same shape as a JSON Schema. Names are lowercase.
+ */
+export type PolicyDocument = {
+  $schema?: string;
+  description?: string;
+  /** Allowed tags by name; `"*"` holds attribute rules for every tag. */
+  tags: Record<string, PolicyDocumentTag>;
+  /** Allowed CSS properties by selector, as `style|selector|property` rules. */
+  styles?: Record<string, string[]>;
+  /** Tags to rename, as `from->to` rules. */
+  renames?: Record<string, string>;
+  config?: PolicyDocumentConfig;
+};
+
+/** The config options a policy document can carry: those with a JSON form. */
+export type PolicyDocumentConfig = Omit<SanitizerConfig, "hooks">;
+
+export type PolicyDocumentTag = {
+  description?: string;
+  /** How many elements of the tag are allowed; `"*"` for unlimited. Defaults to 1. */
+  max?: number | "*";
+  /** At most this many per nearest ancestor of each named tag (`tag{n}@scope`). */
+  maxPer?: Record<string, number>;
+  /** Parents the tag must be a direct child of (`parent>tag`). */
+  parents?: string[];
+  /** Allowed attributes: names, `prefix*` families, or constrained attributes. */
+  attributes?: Array<string | PolicyDocumentAttribute>;
+  /** Values set on every kept element (`tag|attr:=value`). */
+  setAttributes?: Record<string, string>;
+  /** Tokens merged into an attribute on every kept element (`tag|attr+=tokens`). */
+  mergeAttributes?: Record<string, string[]>;
+};
+
+/**
+ * An allowed attribute with optional narrowing. `values` and `pattern` admit
+ * a value if either matches; `schemes` and `hosts` then restrict URLs.
+ */
+export type PolicyDocumentAttribute = {
+  name: string;
+  description?: string;
+  values?: string[];
+  pattern?: string;
+  flags?: string;
+  schemes?: string[];
+  hosts?: string[];
+};
+
+/**
+ * Thrown by `loadPolicy` and `compilePolicyDocument` when a policy document
+ * is malformed: not valid JSON, an unsupported format version, an unknown
+ * field, or a value the rule language could not express. `error.path` is a
+ * JSON Pointer to the offending value (`""` for the document itself).
+ */
+export class PolicyFormatError extends Error {
+  readonly path: string;
+
+  constructor(path: string, reason: string, options?: { cause?: unknown }) {
+    super(`Invalid policy document at ${JSON.stringify(path)}: ${reason}`, options);
+    this.name = "PolicyFormatError";
+    this.path = path;
+  }
+}
+
+/**
+ * How `mergePolicies` and `intersectPolicies` settle a config option the two
+ * policies set differently: throw `PolicyConflictError`, take the stricter
+ * value (for options that have one, such as `false` for
+ * `dangerouslyAllowJavaScript` or the smaller limit), or take the value from
+ * the first or second policy.
+ */
+export type ConfigConflictResolution = "throw" | "stricter" | "first" | "second";
+
+export type PolicyCompositionOptions = {
+  /** One resolution for every option, or one per option (the rest use the default). */
+  onConfigConflict?: ConfigConflictResolution | { [K in keyof SanitizerConfig]?: ConfigConflictResolution };
+};
+
+/**
+ * Thrown by the policy composition functions when two policies cannot be
+ * combined as asked: a config option differs and its resolution is `"throw"`
+ * (or `"stricter"` for an option without a stricter value), or both rename
+ * the same tag differently. `field` names the part, such as
+ * `"config.dangerouslyAllowJavaScript"` or `"renames.b"`.
+ */
+export class PolicyConflictError extends Error {
+  readonly field: string;
+
+  constructor(field: string, reason: string) {
+    super(`Cannot combine policies: ${field} ${reason}`);
+    this.name = "PolicyConflictError";
+    this.field = field;
+  }
+}
+
+/**
+ * Thrown by `assertConforms` when the input is not already allowed by the
+ * policy. `violations` lists every change sanitizing the input would make,
+ * in the same form as `sanitizeWithReport`'s `actions`.
+ */
+export class PolicyViolationError extends Error {
+  readonly violations: SanitizeAction[];
+
+  constructor(violations: SanitizeAction[]) {
+    const shown = violations.slice(0, 3).map(describeAction).join("; ");
+    const more = violations.length > 3 ? `; and ${violations.length - 3} more` : "";
+    super(
+      `HTML does not conform to the policy (${violations.length} violation` +
+        `${violations.length === 1 ? "" : "s"}): ${shown}${more}`
+    );
+    this.name = "PolicyViolationError";
+    this.violations = violations;
+  }
+}
+
+function describeAction(action: SanitizeAction): string {
+  const target = action.attribute
+    ? `${action.attribute} on <${action.tag}>`
+    : action.selector
+      ? `${action.selector} in <${action.tag}>`
+      : `<${action.tag}>`;
+  const property = action.property ? ` ${action.property}` : "";
+  return `${action.type} ${target}${property} (${action.reason})`;
+}
+
 const POLICY_MARKER = Symbol.for("html-allowlist.policy");
 
+// A value constraint from a `tag|attr=...` rule: either an enumerated list of
+// exact values or a regular expression anchored to the whole value.
+type AttrValueConstraint =
+  | { kind: "values"; values: Set<string> }
+  | { kind: "pattern"; source: string; flags: string; regexp: RegExp };
+
+// A `tag|attr:=value` (set) or `tag|attr+=tokens` (merge) rule, applied to
+// every kept element after its attributes are filtered. `ifAttribute` limits
+// it to elements that still carry that attribute (used by addRelNoopener).
+type ForcedAttribute = { value: string; merge: boolean; ifAttribute?: string };
+
+type Disposition =
+  | { action: "unwrap" }
+  | { action: "remove" }
+  | { action: "escape" }
+  | { action: "replace"; tag: string };
+
 type PolicyInternals = {
   [POLICY_MARKER]: true;
   tagCounts: Map<string, number>;
   attrAllowlist: Map<string, Set<string>>;
+  attrPrefixAllowlist: Map<string, Set<string>>;
+  attrValueAllowlist: Map<string, Map<string, AttrValueConstraint[]>>;
+  urlSchemeAllowlist: Map<string, Map<string, Set<string>>>;
+  urlHostAllowlist: Map<string, Map<string, Set<string>>>;
+  nestingAllowlist: Map<string, Set<string>>;
+  scopedTagCounts: Map<string, Map<string, number>>;
   styleAllowlist: Map<string, Set<string>>;
+  forcedAttributes: Map<string, Map<string, ForcedAttribute[]>>;
+  renameRules: Map<string, string>;
+  // Keyed by tag, with `*` for the configured default.
+  disallowedElements: Map<string, Disposition>;
+  overCountElements: Map<string, Disposition>;
   config: SanitizerConfig;
 };
 
@@ -86,8 +552,14 @@ export type SanitizerWindow = WindowLike;
 
 /** The sanitizing functions returned by `createSanitizer`. */
 export type Sanitizer = {
-  sanitize(html: string, rules: string[], config?: SanitizerConfig): string;
-  sanitizeWithPolicy(html: string, policy: CompiledPolicy): string;
+  sanitize(html: string, rules: string[], config?: SanitizerConfig, options?: SanitizeOptions): string;
+  sanitizeWithPolicy(html: string, policy: CompiledPolicy, options?: SanitizeOptions): string;
+  sanitizeWithReport(html: string, policy: CompiledPolicy, options?: SanitizeOptions): SanitizeReport;
+  assertConforms(html: string, policy: CompiledPolicy, options?: SanitizeOptions): string;
+  sanitizeToFragment(html: string, policy: CompiledPolicy, options?: SanitizeOptions): DocumentFragment;
+  sanitizeInto(element: Element, html: string, policy: CompiledPolicy, options?: SanitizeOptions): void;
+  sanitizeToTrustedHTML(html: string, policy: CompiledPolicy, options?: SanitizeOptions): TrustedHTML;
+  registerDefaultTrustedTypesPolicy(policy: CompiledPolicy): Pick<TrustedTypePolicy, "name" | "createHTML">;
 };
 
 /**
@@ -114,6 +586,26 @@ const COMMON_ATTRS: Map<string, string[]> = new Map([
 ]);
 const COMMON_GLOBAL_ATTRS = ["class", "id"];
 const STRUCTURAL_TAGS = new Set(["html", "head", "body"]);
+const UNRENAMEABLE_TAGS = new Set([...STRUCTURAL_TAGS, "template"]);
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr"
+]);
+// Tags whose content is fallback or metadata text that should not end up in
+// the output when the tag itself is dropped, so they are removed rather than
+// unwrapped unless a disposition names them explicitly.
+const DROP_CONTENT_TAGS = new Set(["iframe", "object", "noscript", "title"]);
 const URL_ATTRS = new Set([
   "href",
   "src",
@@ -169,33 +661,200 @@ const DANGEROUS_CSS_FUNCTIONS = new Set([
 ]);
 // Legacy script-capable properties; never allowed even if explicitly listed.
 const DANGEROUS_CSS_PROPS = new Set(["behavior", "-moz-binding"]);
+// How many elements a pass processes between deadline/abort checks.
+const BUDGET_CHECK_INTERVAL = 256;
 
 export function compileRules(rules: string[], config: SanitizerConfig = {}): CompiledPolicy {
   const tagCounts = new Map<string, number>();
   const attrAllowlist = new Map<string, Set<string>>();
+  const attrPrefixAllowlist = new Map<string, Set<string>>();
+  const attrValueAllowlist = new Map<string, Map<string, AttrValueConstraint[]>>();
+  const urlSchemeAllowlist = new Map<string, Map<string, Set<string>>>();
+  const urlHostAllowlist = new Map<string, Map<string, Set<string>>>();
+  const nestingAllowlist = new Map<string, Set<string>>();
+  const scopedTagCounts = new Map<string, Map<string, number>>();
   const styleAllowlist = new Map<string, Set<string>>();
+  const forcedAttributes = new Map<string, Map<string, ForcedAttribute[]>>();
+  const renameRules = new Map<string, string>();
+  const addForcedAttribute = (tag: string, attr: string, forced: ForcedAttribute): void => {
+    if (!forcedAttributes.has(tag)) {
+      forcedAttributes.set(tag, new Map());
+    }
+    const byAttr = forcedAttributes.get(tag)!;
+    if (!byAttr.has(attr)) {
+      byAttr.set(attr, []);
+    }
+    byAttr.get(attr)!.push(forced);
+  };
+
+  validateConfig(config);
 
   for (const rule of rules) {
     if (typeof rule !== "string") {
       throw new RuleSyntaxError(String(rule), "rules must be strings");
     }
     const parts = rule.split("|").map((part) => part.trim());
+    const kind = ruleKind(rule);
+
+    // `tag|attr=constraint` and `tag|attr@modifier=list`.
+    if (kind === "attribute-value") {
+      const valueIndex = rule.indexOf("=");
+      const [rawTag, rawAttr] = rule.slice(0, valueIndex).split("|");
+      const tag = rawTag.trim().toLowerCase();
+      const attrSpec = rawAttr.trim().toLowerCase();
+
+      // `tag|attr:=value` sets the attribute on every kept element and
+      // `tag|attr+=tokens` merges space-separated tokens into it.
+      if (attrSpec.endsWith(":") || attrSpec.endsWith("+")) {
+        const merge = attrSpec.endsWith("+");
+        const attr = attrSpec.slice(0, -1).trim();
+        if (!tag || !attr) throw new RuleSyntaxError(rule, "expected the form tag|attribute:=value");
+        if (/\s/.test(tag) || /\s/.test(attr)) {
+          throw new RuleSyntaxError(rule, "tag and attribute names must not contain whitespace");
+        }
+        if (/[*@]/.test(attr)) {
+          throw new RuleSyntaxError(rule, "a forced attribute must be a single attribute name");
+        }
+        if (attr.startsWith("on") && !(config.dangerouslyAllowJavaScript ?? false)) {
+          throw new RuleSyntaxError(rule, "event handler attributes cannot be forced");
+        }
+        const tokens = rule.slice(valueIndex + 1).trim().split(/\s+/).filter(Boolean);
+        if (merge && tokens.length === 0) throw new RuleSyntaxError(rule, "+= needs at least one token");
+        addForcedAttribute(tag, attr, { value: merge ? tokens.join(" ") : rule.slice(valueIndex + 1).trim(), merge });
+        continue;
+      }
 
-    if (parts.length === 1) {
-      const tag = parts[0].toLowerCase();
+      const modifierIndex = attrSpec.indexOf("@");
+      const attr = modifierIndex === -1 ? attrSpec : attrSpec.slice(0, modifierIndex);
+      const modifier = modifierIndex === -1 ? null : attrSpec.slice(modifierIndex + 1);
+      if (!tag || !attr) throw new RuleSyntaxError(rule, "expected the form tag|attribute=values");
+      if (/\s/.test(tag) || /\s/.test(attrSpec)) {
+        throw new RuleSyntaxError(rule, "tag and attribute names must not contain whitespace");
+      }
+      if (attr.includes("*")) {
+        throw new RuleSyntaxError(rule, "attribute wildcards cannot carry value constraints or modifiers");
+      }
+      const raw = rule.slice(valueIndex + 1).trim();
+
+      if (modifier === null) {
+        if (!attrValueAllowlist.has(tag)) {
+          attrValueAllowlist.set(tag, new Map());
+        }
+        const byAttr = attrValueAllowlist.get(tag)!;
+        if (!byAttr.has(attr)) {
+          byAttr.set(attr, []);
+        }
+        byAttr.get(attr)!.push(parseAttrValueConstraint(rule, raw));
+        continue;
+      }
+
+      if (modifier === "scheme" || modifier === "host") {
+        if (!URL_ATTRS.has(attr)) {
+          throw new RuleSyntaxError(rule, `@${modifier} applies only to URL attributes, not ${JSON.stringify(attr)}`);
+        }
+        const allowlist = modifier === "scheme" ? urlSchemeAllowlist : urlHostAllowlist;
+        if (!allowlist.has(tag)) {
+          allowlist.set(tag, new Map());
+        }
+        const byAttr = allowlist.get(tag)!;
+        if (!byAttr.has(attr)) {
+          byAttr.set(attr, new Set());
+        }
+        const entries = modifier === "scheme" ? parseSchemeList(rule, raw) : parseHostList(rule, raw);
+        for (const entry of entries) {
+          byAttr.get(attr)!.add(entry);
+        }
+        continue;
+      }
+
+      throw new RuleSyntaxError(rule, `unknown attribute modifier @${modifier}`);
+    }
+
+    // `from->to` renames an element before it is counted and its attributes
+    // are filtered, so legacy tags can be normalized instead of unwrapped.
+    if (kind === "rename") {
+      const names = parts[0].split("->").map((name) => name.trim().toLowerCase());
+      if (names.length !== 2 || !names[0] || !names[1]) {
+        throw new RuleSyntaxError(rule, "expected the form from->to");
+      }
+      if (names.some((name) => /[\s*{}@>]/.test(name))) {
+        throw new RuleSyntaxError(rule, "tag names must be plain element names");
+      }
+      const [from, to] = names;
+      if (names.some((name) => UNRENAMEABLE_TAGS.has(name))) {
+        throw new RuleSyntaxError(rule, "html, head, body, and template cannot be renamed");
+      }
+      if (from === to) throw new RuleSyntaxError(rule, "a tag cannot be renamed to itself");
+      const existing = renameRules.get(from);
+      if (existing !== undefined && existing !== to) {
+        throw new RuleSyntaxError(rule, `${from} is already renamed to ${existing}`);
+      }
+      renameRules.set(from, to);
+      continue;
+    }
+
+    if (kind === "nesting") {
+      const names = parts[0].split(">").map((name) => name.trim().toLowerCase());
+      if (names.length !== 2 || !names[0] || !names[1]) {
+        throw new RuleSyntaxError(rule, "expected the form parent>child");
+      }
+      if (names.some((name) => /\s/.test(name))) {
+        throw new RuleSyntaxError(rule, "tag names must not contain whitespace");
+      }
+      const [parent, child] = names;
+      if (!nestingAllowlist.has(child)) {
+        nestingAllowlist.set(child, new Set());
+      }
+      nestingAllowlist.get(child)!.add(parent);
+      continue;
+    }
+
+    // `tag{n}@scope`: at most n per nearest <scope> ancestor. This caps the
+    // tag inside each scope element; the global count still has to allow it.
+    if (kind === "scoped-count") {
+      const [spec, scope, ...rest] = parts[0].toLowerCase().split("@");
+      if (rest.length > 0 || !scope) throw new RuleSyntaxError(rule, "expected the form tag{n}@scope");
+      if (/\s/.test(scope)) throw new RuleSyntaxError(rule, "scope tag name contains whitespace");
+      const { tag, count } = parseTagRule(rule, spec);
       if (!tag) throw new RuleSyntaxError(rule, "tag name is empty");
       if (/\s/.test(tag)) throw new RuleSyntaxError(rule, "tag name contains whitespace");
-      tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+      if (count === Infinity) throw new RuleSyntaxError(rule, "a scoped count must be finite");
+      if (!scopedTagCounts.has(tag)) {
+        scopedTagCounts.set(tag, new Map());
+      }
+      const byScope = scopedTagCounts.get(tag)!;
+      byScope.set(scope, (byScope.get(scope) ?? 0) + count);
+      continue;
+    }
+
+    if (kind === "tag") {
+      const { tag, count } = parseTagRule(rule, parts[0].toLowerCase());
+      if (!tag) throw new RuleSyntaxError(rule, "tag name is empty");
+      if (/\s/.test(tag)) throw new RuleSyntaxError(rule, "tag name contains whitespace");
+      tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + count);
       continue;
     }
 
-    if (parts.length === 2) {
+    if (kind === "attribute") {
       const tag = parts[0].toLowerCase();
       const attr = parts[1].toLowerCase();
       if (!tag || !attr) throw new RuleSyntaxError(rule, "expected the form tag|attribute");
       if (/\s/.test(tag) || /\s/.test(attr)) {
         throw new RuleSyntaxError(rule, "tag and attribute names must not contain whitespace");
       }
+      // `tag|prefix-*` allows an attribute family. A bare `*` would allow
+      // every attribute, so a prefix is required.
+      if (attr.includes("*")) {
+        const prefix = attr.slice(0, -1);
+        if (!attr.endsWith("*") || !prefix || prefix.includes("*")) {
+          throw new RuleSyntaxError(rule, "an attribute wildcard must be a non-empty prefix followed by *");
+        }
+        if (!attrPrefixAllowlist.has(tag)) {
+          attrPrefixAllowlist.set(tag, new Set());
+        }
+        attrPrefixAllowlist.get(tag)!.add(prefix);
+        continue;
+      }
       if (!attrAllowlist.has(tag)) {
         attrAllowlist.set(tag, new Set());
       }
@@ -203,7 +862,7 @@ export function compileRules(rules: string[], config: SanitizerConfig = {}): Com
       continue;
     }
 
-    if (parts.length === 3) {
+    if (kind === "style") {
       if (parts[0].toLowerCase() !== "style") {
         throw new RuleSyntaxError(rule, "three-segment rules must start with style (style|selector|property)");
       }
@@ -221,57 +880,1826 @@ export function compileRules(rules: string[], config: SanitizerConfig = {}): Com
     throw new RuleSyntaxError(rule, "too many segments");
   }
 
+  resolveRenameChains(renameRules);
+  applyRelNoopener(forcedAttributes, config);
+
+  const disallowedElements = parseDispositions("disallowedElements", config.disallowedElements);
+  const overCountElements = parseDispositions("overCountElements", config.overCountElements);
+
   const internals: PolicyInternals = {
     [POLICY_MARKER]: true,
     tagCounts,
     attrAllowlist,
+    attrPrefixAllowlist,
+    attrValueAllowlist,
+    urlSchemeAllowlist,
+    urlHostAllowlist,
+    nestingAllowlist,
+    scopedTagCounts,
     styleAllowlist,
+    forcedAttributes,
+    renameRules,
+    disallowedElements,
+    overCountElements,
     config: { ...config }
   };
   return internals as unknown as CompiledPolicy;
 }
 
+type RuleKind = "attribute-value" | "rename" | "nesting" | "scoped-count" | "tag" | "attribute" | "style";
+
+// Which form a rule takes, or null for one with too many segments. A value
+// constraint is everything after the first `=` and may itself contain `|`
+// (regex alternation), so the segments before that `=` decide the form. The
+// one `=` that belongs elsewhere is an attribute test in a style selector
+// such as `a[target=_blank]`, which opens a bracket before it.
+function ruleKind(rule: string): RuleKind | null {
+  const parts = rule.split("|").map((part) => part.trim());
+  const valueIndex = rule.indexOf("=");
+  if (valueIndex !== -1) {
+    const head = rule.slice(0, valueIndex).split("|");
+    const inStyleSelector = head.length === 2 && head[0].trim().toLowerCase() === "style" && head[1].includes("[");
+    if (!inStyleSelector && head.length === 2) return "attribute-value";
+    if (inStyleSelector && (parts.length !== 3 || parts[1].split("[").length !== parts[1].split("]").length)) {
+      throw new RuleSyntaxError(rule, "ambiguous rule: expected style|selector|property with a complete selector");
+    }
+  }
+  if (parts.length === 1) {
+    if (parts[0].includes("->")) return "rename";
+    if (parts[0].includes(">")) return "nesting";
+    return parts[0].includes("@") ? "scoped-count" : "tag";
+  }
+  if (parts.length === 2) return "attribute";
+  return parts.length === 3 ? "style" : null;
+}
+
+// Resolves chains (`b->strong`, `strong->em`) to their final tag so one pass
+// renames completely; a cycle would never settle.
+function resolveRenameChains(renameRules: Map<string, string>): void {
+  for (const [from, to] of renameRules) {
+    const seen = new Set([from]);
+    let target = to;
+    while (renameRules.has(target)) {
+      if (seen.has(target)) {
+        throw new RuleSyntaxError(`${from}->${to}`, "rename rules form a cycle");
+      }
+      seen.add(target);
+      target = renameRules.get(target)!;
+    }
+    renameRules.set(from, target);
+  }
+}
+
+// Checks the config options whose values the type system cannot constrain.
+// Throws TypeError naming the option.
+function validateConfig(config: SanitizerConfig): void {
+  if (config.truncate !== undefined) {
+    const { by = "characters", limit, ellipsis = "…" } = config.truncate;
+    if (by !== "characters" && by !== "words" && by !== "elements") {
+      throw new TypeError(`truncate.by must be "characters", "words", or "elements", got ${JSON.stringify(by)}`);
+    }
+    if (!Number.isSafeInteger(limit) || limit < 1) {
+      throw new TypeError(`truncate.limit must be a positive integer, got ${JSON.stringify(limit)}`);
+    }
+    if (typeof ellipsis !== "string") {
+      throw new TypeError("truncate.ellipsis must be a string");
+    }
+  }
+
+  for (const option of ["maxInputLength", "maxElements", "maxDepth"] as const) {
+    const value = config[option];
+    if (value !== undefined && (!Number.isSafeInteger(value) || value < 1)) {
+      throw new TypeError(`${option} must be a positive integer, got ${JSON.stringify(value)}`);
+    }
+  }
+  if (config.excessDepth !== undefined && config.excessDepth !== "throw" && config.excessDepth !== "flatten") {
+    throw new TypeError(`excessDepth must be "throw" or "flatten", got ${JSON.stringify(config.excessDepth)}`);
+  }
+
+  if (config.baseUrl !== undefined) {
+    try {
+      new URL(config.baseUrl);
+    } catch {
+      throw new TypeError(`baseUrl must be an absolute URL, got ${JSON.stringify(config.baseUrl)}`);
+    }
+  }
+
+  // `default` is the policy the browser applies to every plain string, so
+  // the pass-through private policy must never take that name.
+  const { trustedTypesPolicyName } = config;
+  if (
+    trustedTypesPolicyName !== undefined &&
+    (typeof trustedTypesPolicyName !== "string" ||
+      !TRUSTED_TYPES_POLICY_NAME_PATTERN.test(trustedTypesPolicyName) ||
+      trustedTypesPolicyName === "default")
+  ) {
+    throw new TypeError(
+      `trustedTypesPolicyName must be a Trusted Types policy name other than "default", ` +
+        `got ${JSON.stringify(trustedTypesPolicyName)}`
+    );
+  }
+}
+
+function parseDispositions(
+  option: string,
+  value: ElementDisposition | Record<string, ElementDisposition> | undefined
+): Map<string, Disposition> {
+  const dispositions = new Map<string, Disposition>();
+  if (value === undefined) return dispositions;
+  const byTag: Record<string, unknown> = typeof value === "string" ? { "*": value } : value;
+  for (const [rawTag, raw] of Object.entries(byTag)) {
+    const tag = rawTag.trim().toLowerCase();
+    const describe = `${option}${typeof value === "string" ? "" : `[${JSON.stringify(rawTag)}]`}`;
+    if (!tag || /\s/.test(tag)) throw new TypeError(`${describe}: invalid tag name`);
+    if (raw === "unwrap" || raw === "remove" || raw === "escape") {
+      dispositions.set(tag, { action: raw });
+      continue;
+    }
+    const prefix = "replaceWith:";
+    const replacement =
+      typeof raw === "string" && raw.startsWith(prefix) ? raw.slice(prefix.length).trim().toLowerCase() : "";
+    if (!replacement || /[\s*{}@>|]/.test(replacement)) {
+      throw new TypeError(
+        `${describe} must be "unwrap", "remove", "escape", or "replaceWith:<tag>", got ${JSON.stringify(raw)}`
+      );
+    }
+    if (UNRENAMEABLE_TAGS.has(replacement) || replacement === "script" || replacement === "style") {
+      throw new TypeError(`${describe}: elements cannot be replaced with <${replacement}>`);
+    }
+    dispositions.set(tag, { action: "replace", tag: replacement });
+  }
+  return dispositions;
+}
+
+// `tag` counts once, `tag{n}` counts n times, and `tag*` is unbounded. All
+// three add into the same multiset total, so `["li{2}", "li"]` allows three.
+function parseTagRule(rule: string, spec: string): { tag: string; count: number } {
+  const match = /^(.+?)(?:(\*)|\{(\d+)\})$/.exec(spec);
+  if (!match) return { tag: spec, count: 1 };
+  const [, tag, unbounded, digits] = match;
+  if (unbounded) return { tag, count: Infinity };
+  const count = Number(digits);
+  if (count < 1 || !Number.isSafeInteger(count)) {
+    throw new RuleSyntaxError(rule, "tag count must be a positive integer");
+  }
+  return { tag, count };
+}
+
+// `/source/flags` is a regular expression; anything else is a comma-separated
+// list of exact values. Patterns are anchored to the whole attribute value so
+// `/note-\w+/` cannot match `x note-1 javascript:...`. The stateful `g`/`y`
+// flags are rejected because `RegExp#test` with them depends on lastIndex, and
+// `m` because it lets the anchors match at a line break inside the value.
+function parseAttrValueConstraint(rule: string, raw: string): AttrValueConstraint {
+  const regexMatch = /^\/(.*)\/([a-z]*)$/s.exec(raw);
+  if (!regexMatch) {
+    return { kind: "values", values: new Set(raw.split(",").map((value) => value.trim())) };
+  }
+  const [, source, flags] = regexMatch;
+  if (!source) throw new RuleSyntaxError(rule, "value pattern is empty");
+  if (/[^isu]/.test(flags)) {
+    throw new RuleSyntaxError(rule, "value pattern flags must be a subset of i, s, u");
+  }
+  let regexp: RegExp;
+  try {
+    regexp = new RegExp(`^(?:${source})$`, flags);
+  } catch (error) {
+    throw new RuleSyntaxError(rule, `invalid value pattern (${(error as Error).message})`);
+  }
+  return { kind: "pattern", source, flags, regexp };
+}
+
+// Scheme names are compared without the trailing colon, so `https` and
+// `https:` are the same rule.
+function parseSchemeList(rule: string, raw: string): string[] {
+  const schemes = raw.split(",").map((scheme) => scheme.trim().toLowerCase().replace(/:$/, ""));
+  for (const scheme of schemes) {
+    if (!/^[a-z][a-z0-9+.-]*$/.test(scheme)) {
+      throw new RuleSyntaxError(rule, `invalid URL scheme ${JSON.stringify(scheme)}`);
+    }
+  }
+  return schemes;
+}
+
+// Host patterns are normalized through the URL parser, exactly like the
+// hosts they are compared against, so IDN and percent-encoded spellings in a
+// rule match their ASCII form in a document. `*.example.com` matches any
+// subdomain of example.com but not example.com itself.
+function parseHostList(rule: string, raw: string): string[] {
+  return raw.split(",").map((entry) => {
+    const trimmed = entry.trim().toLowerCase();
+    const wildcard = trimmed.startsWith("*.");
+    const name = wildcard ? trimmed.slice(2) : trimmed;
+    const hostname = /^[^\s/\\?#@:*]+$/.test(name) ? normalizeHostname(`http://${name}/`) : null;
+    if (!hostname) {
+      throw new RuleSyntaxError(rule, `invalid host ${JSON.stringify(trimmed)}`);
+    }
+    return wildcard ? `*.${hostname}` : hostname;
+  });
+}
+
+function normalizeHostname(url: string, base?: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, base);
+  } catch {
+    return null;
+  }
+  return parsed.hostname ? parsed.hostname.replace(/\.$/, "") : null;
+}
+
+function matchesAttrValueConstraint(constraint: AttrValueConstraint, value: string): boolean {
+  return constraint.kind === "values" ? constraint.values.has(value) : constraint.regexp.test(value);
+}
+
 function toInternals(policy: CompiledPolicy): PolicyInternals {
   const candidate = policy as unknown as PolicyInternals | null;
   if (!candidate || candidate[POLICY_MARKER] !== true) {
-    throw new TypeError("sanitizeWithPolicy expects a policy created by compileRules()");
+    throw new TypeError("sanitizeWithPolicy expects a policy created by compileRules() or loadPolicy()");
+  }
+  return candidate;
+}
+
+const POLICY_FORMAT = "html-allowlist/policy";
+const POLICY_FORMAT_VERSION = 1;
+
+type SerializedConstraint = { values: string[] } | { pattern: string; flags: string };
+
+/**
+ * Serializes a compiled policy to versioned JSON that `loadPolicy` turns back
+ * into an equivalent policy, so policies can be cached or sent to another
+ * process without their rule lists. Throws `TypeError` if the policy's config
+ * has `hooks`, which cannot be represented as JSON.
+ */
+export function serializePolicy(policy: CompiledPolicy): string {
+  const internals = toInternals(policy);
+  const { hooks, ...config } = internals.config;
+  if (hooks !== undefined) throw new TypeError("serializePolicy cannot serialize hooks, which are functions");
+
+  // Maps keep their insertion order, which matters: the first parent named by
+  // nesting rules is the one misplaced elements are wrapped in.
+  const record = <T>(map: Map<string, T>, convert: (value: T) => unknown): Record<string, unknown> =>
+    Object.fromEntries([...map].map(([key, value]) => [key, convert(value)]));
+  const list = (set: Set<string>): string[] => [...set];
+  return JSON.stringify({
+    format: POLICY_FORMAT,
+    version: POLICY_FORMAT_VERSION,
+    tags: record(internals.tagCounts, (count) => (count === Infinity ? "*" : count)),
+    attributes: record(internals.attrAllowlist, list),
+    attributePrefixes: record(internals.attrPrefixAllowlist, list),
+    attributeValues: record(internals.attrValueAllowlist, (byAttr) =>
+      record(byAttr, (constraints) =>
+        constraints.map(
+          (constraint): SerializedConstraint =>
+            constraint.kind === "values"
+              ? { values: [...constraint.values] }
+              : { pattern: constraint.source, flags: constraint.flags }
+        )
+      )
+    ),
+    urlSchemes: record(internals.urlSchemeAllowlist, (byAttr) => record(byAttr, list)),
+    urlHosts: record(internals.urlHostAllowlist, (byAttr) => record(byAttr, list)),
+    nesting: record(internals.nestingAllowlist, list),
+    scopedCounts: record(internals.scopedTagCounts, (byScope) => record(byScope, (count) => count)),
+    styles: record(internals.styleAllowlist, list),
+    forcedAttributes: record(internals.forcedAttributes, (byAttr) =>
+      record(byAttr, (forced) => forced.map((rule) => ({ ...rule })))
+    ),
+    renames: record(internals.renameRules, (to) => to),
+    config
+  });
+}
+
+/**
+ * Loads a policy written by `serializePolicy`, from its JSON text or the
+ * parsed value. Every field is validated as strictly as the rules it came
+ * from, so a tampered or corrupted document throws `PolicyFormatError`
+ * instead of loading a policy `compileRules` would have refused. Validation
+ * cannot tell a deliberately widened policy from a legitimate one; load only
+ * from a source you trust to define policy.
+ */
+export function loadPolicy(json: unknown): CompiledPolicy {
+  let document = json;
+  if (typeof json === "string") {
+    try {
+      document = JSON.parse(json);
+    } catch (error) {
+      throw new PolicyFormatError("", `not valid JSON (${(error as Error).message})`, { cause: error });
+    }
+  }
+  const root = expectRecord(document, "");
+  for (const key of Object.keys(root)) {
+    if (!SERIALIZED_POLICY_FIELDS.has(key)) throw new PolicyFormatError(pointer("", key), "unknown field");
+  }
+  if (root.format !== POLICY_FORMAT) {
+    throw new PolicyFormatError("/format", `expected ${JSON.stringify(POLICY_FORMAT)}`);
+  }
+  if (root.version !== POLICY_FORMAT_VERSION) {
+    throw new PolicyFormatError(
+      "/version",
+      `unsupported version ${JSON.stringify(root.version)}; this release reads version ${POLICY_FORMAT_VERSION}`
+    );
+  }
+
+  const config = loadConfig(root.config, "/config");
+  const allowJavaScript = config.dangerouslyAllowJavaScript ?? false;
+  const names = (value: unknown, path: string): Set<string> =>
+    new Set(expectArray(value, path).map((name, index) => expectName(name, pointer(path, String(index)))));
+  const tagCounts = loadRecord(root.tags, "/tags", (value, path) =>
+    value === "*" ? Infinity : expectCount(value, path)
+  );
+  const attrAllowlist = loadRecord(root.attributes, "/attributes", (value, path) => {
+    const attrs = names(value, path);
+    for (const attr of attrs) {
+      if (/[*@]/.test(attr)) throw new PolicyFormatError(path, `invalid attribute name ${JSON.stringify(attr)}`);
+    }
+    return attrs;
+  });
+  const attrPrefixAllowlist = loadRecord(root.attributePrefixes, "/attributePrefixes", (value, path) => {
+    const prefixes = names(value, path);
+    for (const prefix of prefixes) {
+      if (prefix.includes("*")) throw new PolicyFormatError(path, `invalid attribute prefix ${JSON.stringify(prefix)}`);
+    }
+    return prefixes;
+  });
+  const attrValueAllowlist = loadRecord(root.attributeValues, "/attributeValues", (value, path, tag) =>
+    loadRecord(value, path, (constraints, attrPath, attr) =>
+      expectArray(constraints, attrPath).map((raw, index) => {
+        const constraintPath = pointer(attrPath, String(index));
+        const constraint = expectRecord(raw, constraintPath);
+        const keys = Object.keys(constraint).sort().join(",");
+        if (keys === "values") {
+          const values = expectArray(constraint.values, pointer(constraintPath, "values"));
+          if (values.some((item) => typeof item !== "string")) {
+            throw new PolicyFormatError(pointer(constraintPath, "values"), "expected an array of strings");
+          }
+          return { kind: "values", values: new Set(values as string[]) } as const;
+        }
+        const { pattern, flags } = constraint;
+        if (keys === "flags,pattern" && typeof pattern === "string" && typeof flags === "string") {
+          return asFormatError(constraintPath, () =>
+            parseAttrValueConstraint(`${tag}|${attr}=/${pattern}/${flags}`, `/${pattern}/${flags}`)
+          );
+        }
+        throw new PolicyFormatError(constraintPath, "expected { values } or { pattern, flags }");
+      })
+    )
+  );
+  const loadUrlRules = (value: unknown, path: string, modifier: "scheme" | "host") =>
+    loadRecord(value, path, (byAttr, tagPath, tag) =>
+      loadRecord(byAttr, tagPath, (entries, attrPath, attr) => {
+        if (!URL_ATTRS.has(attr)) throw new PolicyFormatError(attrPath, `${attr} is not a URL attribute`);
+        const list = expectArray(entries, attrPath);
+        if (list.some((entry) => typeof entry !== "string")) {
+          throw new PolicyFormatError(attrPath, "expected an array of strings");
+        }
+        // Empty after intersecting or subtracting: no scheme or host passes.
+        if (list.length === 0) return new Set<string>();
+        const raw = list.join(",");
+        const rule = `${tag}|${attr}@${modifier}=${raw}`;
+        return new Set(
+          asFormatError(attrPath, () => (modifier === "scheme" ? parseSchemeList(rule, raw) : parseHostList(rule, raw)))
+        );
+      })
+    );
+  const urlSchemeAllowlist = loadUrlRules(root.urlSchemes, "/urlSchemes", "scheme");
+  const urlHostAllowlist = loadUrlRules(root.urlHosts, "/urlHosts", "host");
+  const nestingAllowlist = loadRecord(root.nesting, "/nesting", names);
+  const scopedTagCounts = loadRecord(root.scopedCounts, "/scopedCounts", (value, path) =>
+    loadRecord(value, path, expectCount)
+  );
+  const styleAllowlist = loadRecord(
+    root.styles,
+    "/styles",
+    names,
+    (selector) => selector.trim() !== "" && selector.trim() === selector && !selector.includes("|")
+  );
+  const forcedAttributes = loadRecord(root.forcedAttributes, "/forcedAttributes", (value, path) =>
+    loadRecord(value, path, (rules, attrPath, attr) => {
+      if (/[*@]/.test(attr)) {
+        throw new PolicyFormatError(attrPath, "a forced attribute must be a single attribute name");
+      }
+      if (attr.startsWith("on") && !allowJavaScript) {
+        throw new PolicyFormatError(attrPath, "event handler attributes cannot be forced");
+      }
+      return expectArray(rules, attrPath).map((raw, index) => {
+        const rulePath = pointer(attrPath, String(index));
+        const rule = expectRecord(raw, rulePath);
+        const { value: forcedValue, merge, ifAttribute, ...rest } = rule;
+        if (
+          Object.keys(rest).length > 0 ||
+          typeof forcedValue !== "string" ||
+          typeof merge !== "boolean" ||
+          (ifAttribute !== undefined && typeof ifAttribute !== "string")
+        ) {
+          throw new PolicyFormatError(rulePath, "expected { value, merge, ifAttribute? }");
+        }
+        return ifAttribute === undefined
+          ? { value: forcedValue, merge }
+          : { value: forcedValue, merge, ifAttribute: expectName(ifAttribute, pointer(rulePath, "ifAttribute")) };
+      });
+    })
+  );
+  const renameRules = loadRecord(root.renames, "/renames", (value, path, from) => {
+    const to = expectName(value, path);
+    if (UNRENAMEABLE_TAGS.has(from) || UNRENAMEABLE_TAGS.has(to)) {
+      throw new PolicyFormatError(path, "html, head, body, and template cannot be renamed");
+    }
+    if (from === to) throw new PolicyFormatError(path, "a tag cannot be renamed to itself");
+    return to;
+  });
+  // compileRules resolves chains, so a target that is itself renamed means
+  // the document was edited (and might form a cycle).
+  for (const [from, to] of renameRules) {
+    if (renameRules.has(to)) throw new PolicyFormatError(pointer("/renames", from), `${to} is itself renamed`);
+  }
+
+  const internals: PolicyInternals = {
+    [POLICY_MARKER]: true,
+    tagCounts,
+    attrAllowlist,
+    attrPrefixAllowlist,
+    attrValueAllowlist,
+    urlSchemeAllowlist,
+    urlHostAllowlist,
+    nestingAllowlist,
+    scopedTagCounts,
+    styleAllowlist,
+    forcedAttributes,
+    renameRules,
+    disallowedElements: asFormatError("/config/disallowedElements", () =>
+      parseDispositions("disallowedElements", config.disallowedElements)
+    ),
+    overCountElements: asFormatError("/config/overCountElements", () =>
+      parseDispositions("overCountElements", config.overCountElements)
+    ),
+    config
+  };
+  return internals as unknown as CompiledPolicy;
+}
+
+const SERIALIZED_POLICY_FIELDS = new Set([
+  "format",
+  "version",
+  "tags",
+  "attributes",
+  "attributePrefixes",
+  "attributeValues",
+  "urlSchemes",
+  "urlHosts",
+  "nesting",
+  "scopedCounts",
+  "styles",
+  "forcedAttributes",
+  "renames",
+  "config"
+]);
+
+// The config options a serialized policy may carry, with a shape check for
+// each; validateConfig and parseDispositions then check values in depth.
+const SERIALIZED_CONFIG_OPTIONS = new Map<string, (value: unknown) => boolean>([
+  ["allowCommonAttributes", (value) => typeof value === "boolean"],
+  ["dangerouslyAllowJavaScript", (value) => typeof value === "boolean"],
+  ["allowDataImageUrls", (value) => typeof value === "boolean"],
+  ["addRelNoopener", (value) => typeof value === "boolean"],
+  ["baseUrl", (value) => typeof value === "string"],
+  ["maxPasses", (value) => typeof value === "number" && Number.isSafeInteger(value) && value >= 1],
+  ["misplacedElements", (value) => value === "unwrap" || value === "remove" || value === "wrap"],
+  ["disallowedElements", (value) => typeof value === "string" || isRecord(value)],
+  ["overCountElements", (value) => typeof value === "string" || isRecord(value)],
+  ["outputFormat", (value) => value === "fragment" || value === "document"],
+  ["truncate", isRecord],
+  ["maxInputLength", (value) => typeof value === "number"],
+  ["maxElements", (value) => typeof value === "number"],
+  ["maxDepth", (value) => typeof value === "number"],
+  ["excessDepth", (value) => typeof value === "string"],
+  ["trustedTypesPolicyName", (value) => typeof value === "string"]
+]);
+
+function loadConfig(value: unknown, path: string): SanitizerConfig {
+  const config = expectRecord(value, path);
+  for (const [option, optionValue] of Object.entries(config)) {
+    const check = SERIALIZED_CONFIG_OPTIONS.get(option);
+    if (!check) throw new PolicyFormatError(pointer(path, option), "unknown or unserializable config option");
+    if (!check(optionValue)) throw new PolicyFormatError(pointer(path, option), "invalid value");
+    // validateConfig checks each option on its own, so checking them one at
+    // a time pins a failure to its option.
+    asFormatError(pointer(path, option), () => validateConfig({ [option]: optionValue }));
+  }
+  return { ...config } as SanitizerConfig;
+}
+
+// A record keyed by lowercase tag (or `*`) or attribute names, loaded into a
+// Map in document order.
+function loadRecord<T>(
+  value: unknown,
+  path: string,
+  loadEntry: (value: unknown, path: string, key: string) => T,
+  isKey: (key: string) => boolean = isName
+): Map<string, T> {
+  const map = new Map<string, T>();
+  for (const [key, entry] of Object.entries(expectRecord(value, path))) {
+    const entryPath = pointer(path, key);
+    if (!isKey(key)) throw new PolicyFormatError(entryPath, `invalid name ${JSON.stringify(key)}`);
+    map.set(key, loadEntry(entry, entryPath, key));
+  }
+  return map;
+}
+
+function isName(value: string): boolean {
+  return value !== "" && !/\s/.test(value) && value === value.toLowerCase();
+}
+
+function expectName(value: unknown, path: string): string {
+  if (typeof value !== "string" || !isName(value)) {
+    throw new PolicyFormatError(path, "expected a non-empty lowercase name without whitespace");
+  }
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function expectRecord(value: unknown, path: string): Record<string, unknown> {
+  if (!isRecord(value)) throw new PolicyFormatError(path, "expected an object");
+  return value;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new PolicyFormatError(path, "expected an array");
+  return value;
+}
+
+// Runs a check written for rules or config and reports its failure at `path`.
+function asFormatError<T>(path: string, run: () => T): T {
+  try {
+    return run();
+  } catch (error) {
+    if (error instanceof RuleSyntaxError || error instanceof TypeError) {
+      throw new PolicyFormatError(path, error.message, { cause: error });
+    }
+    throw error;
+  }
+}
+
+// Appends a segment to a JSON Pointer (RFC 6901).
+function pointer(path: string, segment: string): string {
+  return `${path}/${segment.replace(/~/g, "~0").replace(/\//g, "~1")}`;
+}
+
+/**
+ * Compiles a policy written as a `PolicyDocument`. The document is translated
+ * into rule strings and compiled by `compileRules`, so it yields exactly the
+ * policy those rules would; a part whose rule would read back as a different
+ * form of rule is rejected. `config` is applied over the document's own config
+ * and is the place for `hooks`, which a document cannot hold.
+ * Throws `PolicyFormatError` pointing at the offending part of the document.
+ */
+export function compilePolicyDocument(document: PolicyDocument, config: SanitizerConfig = {}): CompiledPolicy {
+  const root = expectRecord(document, "");
+  expectFields(root, "", DOCUMENT_FIELDS);
+  expectOptionalString(root.$schema, "/$schema");
+  expectOptionalString(root.description, "/description");
+
+  // Each rule keeps the path it came from, so a RuleSyntaxError can be
+  // reported against the document rather than a generated string. Field
+  // values may contain rule syntax (a pattern's `|`, a selector's `=`), so
+  // each rule must read back as the form it was generated for.
+  const rules: string[] = [];
+  const paths: string[] = [];
+  const emit = (rule: string, path: string, kind: RuleKind): void => {
+    if (asFormatError(path, () => ruleKind(rule)) !== kind) {
+      throw new PolicyFormatError(path, `would compile as a different kind of rule: ${JSON.stringify(rule)}`);
+    }
+    rules.push(rule);
+    paths.push(path);
+  };
+
+  for (const [tag, value] of Object.entries(expectRecord(root.tags, "/tags"))) {
+    const path = pointer("/tags", tag);
+    if (tag !== "*") expectDocumentTag(tag, path);
+    const entry = expectRecord(value, path);
+    expectFields(entry, path, tag === "*" ? DOCUMENT_WILDCARD_TAG_FIELDS : DOCUMENT_TAG_FIELDS);
+    expectOptionalString(entry.description, pointer(path, "description"));
+    if (tag !== "*") {
+      const maxPath = pointer(path, "max");
+      if (entry.max === "*") emit(`${tag}*`, maxPath, "tag");
+      else if (entry.max === undefined) emit(tag, path, "tag");
+      else emit(`${tag}{${expectCount(entry.max, maxPath)}}`, maxPath, "tag");
+    }
+    if (entry.maxPer !== undefined) {
+      for (const [scope, count] of Object.entries(expectRecord(entry.maxPer, pointer(path, "maxPer")))) {
+        const scopePath = pointer(pointer(path, "maxPer"), scope);
+        expectDocumentTag(scope, scopePath);
+        emit(`${tag}{${expectCount(count, scopePath)}}@${scope}`, scopePath, "scoped-count");
+      }
+    }
+    if (entry.parents !== undefined) {
+      expectArray(entry.parents, pointer(path, "parents")).forEach((parent, index) => {
+        const parentPath = pointer(pointer(path, "parents"), String(index));
+        emit(`${expectDocumentTag(parent, parentPath)}>${tag}`, parentPath, "nesting");
+      });
+    }
+    if (entry.attributes !== undefined) {
+      expectArray(entry.attributes, pointer(path, "attributes")).forEach((attribute, index) => {
+        emitAttributeRules(tag, attribute, pointer(pointer(path, "attributes"), String(index)), emit);
+      });
+    }
+    if (entry.setAttributes !== undefined) {
+      const setPath = pointer(path, "setAttributes");
+      for (const [attr, forced] of Object.entries(expectRecord(entry.setAttributes, setPath))) {
+        const attrPath = pointer(setPath, attr);
+        expectDocumentAttr(attr, attrPath);
+        if (typeof forced !== "string" || forced !== forced.trim()) {
+          throw new PolicyFormatError(attrPath, "expected a string without surrounding whitespace");
+        }
+        emit(`${tag}|${attr}:=${forced}`, attrPath, "attribute-value");
+      }
+    }
+    if (entry.mergeAttributes !== undefined) {
+      const mergePath = pointer(path, "mergeAttributes");
+      for (const [attr, tokens] of Object.entries(expectRecord(entry.mergeAttributes, mergePath))) {
+        const attrPath = pointer(mergePath, attr);
+        expectDocumentAttr(attr, attrPath);
+        const list = expectArray(tokens, attrPath);
+        if (list.length === 0 || list.some((token) => typeof token !== "string" || !/^\S+$/.test(token))) {
+          throw new PolicyFormatError(attrPath, "expected a non-empty array of tokens without whitespace");
+        }
+        emit(`${tag}|${attr}+=${list.join(" ")}`, attrPath, "attribute-value");
+      }
+    }
+  }
+
+  if (root.styles !== undefined) {
+    for (const [selector, properties] of Object.entries(expectRecord(root.styles, "/styles"))) {
+      const path = pointer("/styles", selector);
+      if (selector.trim() === "" || selector !== selector.trim() || selector.includes("|")) {
+        throw new PolicyFormatError(path, "expected a selector without | or surrounding whitespace");
+      }
+      expectArray(properties, path).forEach((property, index) => {
+        const propertyPath = pointer(path, String(index));
+        if (typeof property !== "string" || !/^-?-?[a-z][a-z0-9-]*$/.test(property)) {
+          throw new PolicyFormatError(propertyPath, "expected a lowercase CSS property name");
+        }
+        emit(`style|${selector}|${property}`, propertyPath, "style");
+      });
+    }
+  }
+
+  if (root.renames !== undefined) {
+    for (const [from, to] of Object.entries(expectRecord(root.renames, "/renames"))) {
+      const path = pointer("/renames", from);
+      expectDocumentTag(from, path);
+      emit(`${from}->${expectDocumentTag(to, path)}`, path, "rename");
+    }
+  }
+
+  const documentConfig = root.config === undefined ? {} : loadConfig(root.config, "/config");
+  for (const option of ["disallowedElements", "overCountElements"] as const) {
+    asFormatError(pointer("/config", option), () => parseDispositions(option, documentConfig[option]));
+  }
+  try {
+    return compileRules(rules, { ...documentConfig, ...config });
+  } catch (error) {
+    if (!(error instanceof RuleSyntaxError)) throw error;
+    const index = rules.indexOf(error.rule);
+    throw new PolicyFormatError(index === -1 ? "" : paths[index], error.message, { cause: error });
+  }
+}
+
+const DOCUMENT_FIELDS = new Set(["$schema", "description", "tags", "styles", "renames", "config"]);
+const DOCUMENT_TAG_FIELDS = new Set([
+  "description",
+  "max",
+  "maxPer",
+  "parents",
+  "attributes",
+  "setAttributes",
+  "mergeAttributes"
+]);
+const DOCUMENT_WILDCARD_TAG_FIELDS = new Set(["description", "attributes", "setAttributes", "mergeAttributes"]);
+const DOCUMENT_ATTRIBUTE_FIELDS = new Set(["name", "description", "values", "pattern", "flags", "schemes", "hosts"]);
+// Names are restricted to characters with no meaning in the rule language,
+// so a name cannot smuggle in a second rule.
+const DOCUMENT_TAG_NAME = /^[a-z][a-z0-9._-]*$/;
+const DOCUMENT_ATTR_NAME = /^[a-z_:][a-z0-9_.:-]*$/;
+
+function emitAttributeRules(
+  tag: string,
+  value: unknown,
+  path: string,
+  emit: (rule: string, path: string, kind: RuleKind) => void
+): void {
+  if (typeof value === "string") {
+    if (!/^[a-z_:][a-z0-9_.:-]*\*?$/.test(value)) {
+      throw new PolicyFormatError(path, "expected a lowercase attribute name or prefix*");
+    }
+    emit(`${tag}|${value}`, path, "attribute");
+    return;
+  }
+  const attribute = expectRecord(value, path);
+  expectFields(attribute, path, DOCUMENT_ATTRIBUTE_FIELDS);
+  expectOptionalString(attribute.description, pointer(path, "description"));
+  const name = expectDocumentAttr(attribute.name, pointer(path, "name"));
+  const values = attribute.values === undefined ? undefined : expectList(attribute.values, pointer(path, "values"));
+  expectOptionalString(attribute.pattern, pointer(path, "pattern"));
+  expectOptionalString(attribute.flags, pointer(path, "flags"));
+  if (attribute.flags !== undefined && attribute.pattern === undefined) {
+    throw new PolicyFormatError(pointer(path, "flags"), "flags need a pattern");
+  }
+
+  if (values === undefined && attribute.pattern === undefined) emit(`${tag}|${name}`, path, "attribute");
+  if (values !== undefined) {
+    // A value list that reads as /pattern/flags would compile as a pattern.
+    if (/^\/.*\/[a-z]*$/s.test(values.join(","))) {
+      throw new PolicyFormatError(pointer(path, "values"), "values that read as a /pattern/ must use pattern");
+    }
+    emit(`${tag}|${name}=${values.join(",")}`, pointer(path, "values"), "attribute-value");
+  }
+  if (attribute.pattern !== undefined) {
+    emit(`${tag}|${name}=/${attribute.pattern}/${attribute.flags ?? ""}`, pointer(path, "pattern"), "attribute-value");
+  }
+  for (const modifier of ["scheme", "host"] as const) {
+    const field = `${modifier}s` as const;
+    if (attribute[field] === undefined) continue;
+    const list = expectList(attribute[field], pointer(path, field));
+    if (list.length === 0) throw new PolicyFormatError(pointer(path, field), "expected at least one entry");
+    emit(`${tag}|${name}@${modifier}=${list.join(",")}`, pointer(path, field), "attribute-value");
+  }
+}
+
+function expectFields(record: Record<string, unknown>, path: string, allowed: Set<string>): void {
+  for (const key of Object.keys(record)) {
+    if (!allowed.has(key)) throw new PolicyFormatError(pointer(path, key), "unknown field");
+  }
+}
+
+function expectOptionalString(value: unknown, path: string): void {
+  if (value !== undefined && typeof value !== "string") throw new PolicyFormatError(path, "expected a string");
+}
+
+function expectDocumentTag(value: unknown, path: string): string {
+  if (typeof value !== "string" || !DOCUMENT_TAG_NAME.test(value)) {
+    throw new PolicyFormatError(path, `expected a lowercase tag name, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function expectDocumentAttr(value: unknown, path: string): string {
+  if (typeof value !== "string" || !DOCUMENT_ATTR_NAME.test(value)) {
+    throw new PolicyFormatError(path, `expected a lowercase attribute name, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function expectCount(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isSafeInteger(value) || value < 1) {
+    throw new PolicyFormatError(path, "expected a positive integer");
+  }
+  return value;
+}
+
+// Items of a comma-separated rule list, which cannot themselves hold a comma
+// or keep surrounding whitespace.
+function expectList(value: unknown, path: string): string[] {
+  return expectArray(value, path).map((item, index) => {
+    if (typeof item !== "string" || item.includes(",") || item !== item.trim()) {
+      const reason = "expected a string without commas or surrounding whitespace";
+      throw new PolicyFormatError(pointer(path, String(index)), reason);
+    }
+    return item;
+  });
+}
+
+/**
+ * Adds rules to a compiled policy: the result is the policy `compileRules`
+ * would build from the base policy's rules followed by `moreRules`, so tag and
+ * scoped counts add up. `config` is applied over the base policy's config.
+ */
+export function extendPolicy(base: CompiledPolicy, moreRules: string[], config: SanitizerConfig = {}): CompiledPolicy {
+  const internals = toInternals(base);
+  const merged = { ...internals.config, ...config };
+  const more = toInternals(compileRules(moreRules, { ...merged, addRelNoopener: false }));
+  return combinePolicies(internals, more, (x, y) => x + y, merged, (from, to, existing) => {
+    throw new RuleSyntaxError(`${from}->${to}`, `${from} is already renamed to ${existing}`);
+  });
+}
+
+/**
+ * The union of two policies: everything either allows, with the larger count
+ * for a tag both allow. A narrowing rule (`@scheme`/`@host`, nesting, scoped
+ * counts, and value constraints on common attributes) applies only where
+ * every policy that allows the tag or attribute has it, and then admits what
+ * either one admits. Config options that differ throw `PolicyConflictError`
+ * unless `options.onConfigConflict` resolves them.
+ */
+export function mergePolicies(
+  a: CompiledPolicy,
+  b: CompiledPolicy,
+  options: PolicyCompositionOptions = {}
+): CompiledPolicy {
+  const first = toInternals(a);
+  const second = toInternals(b);
+  const config = resolveConfig(first.config, second.config, options, "throw", false);
+  const merged = combinePolicies(first, second, Math.max, config, (from, to, existing) => {
+    throw new PolicyConflictError(`renames.${from}`, `is ${existing} in the first policy and ${to} in the second`);
+  });
+  const internals = toInternals(merged);
+  const sides = [first, second];
+
+  // Rules from one list narrow each other; a union keeps a restriction only
+  // where every side that allows the attribute on that tag restricts it.
+  internals.urlSchemeAllowlist = new Map();
+  internals.urlHostAllowlist = new Map();
+  for (const tag of new Set([...policyTags(first), ...policyTags(second)])) {
+    const grants = sides.map((side) => grantsFor(side, tag));
+    for (const [rulesOf, byTag] of [
+      [(grant: TagAttributeGrants) => grant.schemes, internals.urlSchemeAllowlist],
+      [(grant: TagAttributeGrants) => grant.hosts, internals.urlHostAllowlist]
+    ] as const) {
+      const byAttr = new Map<string, Set<string>>();
+      for (const name of new Set(grants.flatMap((grant) => [...rulesOf(grant).keys()]))) {
+        const allowing = grants.filter((grant) => grantFor(grant, name) !== null);
+        const restricting = allowing.length > 0 ? allowing : grants.filter((grant) => rulesOf(grant).has(name));
+        if (restricting.some((grant) => !rulesOf(grant).has(name))) continue;
+        byAttr.set(name, new Set(restricting.flatMap((grant) => [...rulesOf(grant).get(name)!])));
+      }
+      if (byAttr.size > 0) byTag.set(tag, byAttr);
+    }
+    // With allowCommonAttributes, a constraint from one side would narrow a
+    // common attribute the other side allows with any value.
+    const names = internals.attrAllowlist.get(tag) ?? new Set<string>();
+    for (const grant of grants) {
+      for (const name of grant.names) {
+        if (attrRulesFor(internals.attrValueAllowlist, tag, name).length > 0) names.add(name);
+      }
+    }
+    if (names.size > 0) internals.attrAllowlist.set(tag, names);
+  }
+
+  const allowingTag = (tag: string, restricted: (side: PolicyInternals) => boolean): PolicyInternals[] => {
+    const allowing = sides.filter((side) => side.tagCounts.has(tag));
+    return allowing.length > 0 ? allowing : sides.filter(restricted);
+  };
+  internals.nestingAllowlist = new Map();
+  for (const child of new Set([...first.nestingAllowlist.keys(), ...second.nestingAllowlist.keys()])) {
+    const restricting = allowingTag(child, (side) => side.nestingAllowlist.has(child));
+    if (restricting.some((side) => !side.nestingAllowlist.has(child))) continue;
+    const parents = restricting.flatMap((side) => [...side.nestingAllowlist.get(child)!]);
+    internals.nestingAllowlist.set(child, new Set(parents));
+  }
+  internals.scopedTagCounts = new Map();
+  for (const tag of new Set([...first.scopedTagCounts.keys(), ...second.scopedTagCounts.keys()])) {
+    const caps = allowingTag(tag, (side) => side.scopedTagCounts.has(tag)).map(
+      (side) => side.scopedTagCounts.get(tag) ?? new Map<string, number>()
+    );
+    const byScope = new Map<string, number>();
+    for (const [scope, count] of caps[0]) {
+      if (caps.every((cap) => cap.has(scope))) {
+        byScope.set(scope, Math.max(count, ...caps.map((cap) => cap.get(scope)!)));
+      }
+    }
+    if (byScope.size > 0) internals.scopedTagCounts.set(tag, byScope);
+  }
+  return merged;
+}
+
+/**
+ * Only what both policies allow: a tag allowed by both (the smaller count),
+ * an attribute allowed on that tag by both (values and URLs satisfying both
+ * policies' constraints), every nesting rule and scoped count of either, the
+ * style properties both allow, and the renames both make. A forced attribute
+ * is kept where the other policy forces it too or allows its value. Config
+ * options with a stricter value always take it, so the result never allows
+ * more than either policy; other differing options follow
+ * `options.onConfigConflict` (default `"throw"`). Where the intersection of
+ * two value patterns cannot be written as one pattern (different flags), the
+ * attribute is dropped rather than approximated.
+ */
+export function intersectPolicies(
+  a: CompiledPolicy,
+  b: CompiledPolicy,
+  options: PolicyCompositionOptions = {}
+): CompiledPolicy {
+  const first = toInternals(a);
+  const second = toInternals(b);
+  const config = resolveConfig(first.config, second.config, options, "throw", true);
+
+  const tagCounts = new Map<string, number>();
+  for (const [tag, count] of first.tagCounts) {
+    const other = second.tagCounts.get(tag);
+    if (other !== undefined) tagCounts.set(tag, Math.min(count, other));
+  }
+
+  const grants = new Map<string, TagAttributeGrants>();
+  for (const tag of new Set([...policyTags(first), ...policyTags(second)])) {
+    const left = grantsFor(first, tag);
+    const right = grantsFor(second, tag);
+    const result = emptyGrants();
+    for (const x of left.prefixes) {
+      for (const y of right.prefixes) {
+        if (x.startsWith(y)) result.prefixes.add(x);
+        else if (y.startsWith(x)) result.prefixes.add(y);
+      }
+    }
+    const names = [...left.names, ...right.names, ...left.constraints.keys(), ...right.constraints.keys()];
+    for (const name of new Set(names)) {
+      if (matchesAttrPrefix(name, result.prefixes)) continue;
+      const x = grantFor(left, name);
+      const y = grantFor(right, name);
+      if (x === null || y === null) continue;
+      if (x === "any" && y === "any") result.names.add(name);
+      else if (x === "any" || y === "any") result.constraints.set(name, (x === "any" ? y : x) as AttrValueConstraint[]);
+      else {
+        const both = intersectConstraints(x, y);
+        if (both.length > 0) result.constraints.set(name, both);
+      }
+    }
+    for (const name of new Set([...left.schemes.keys(), ...right.schemes.keys()])) {
+      const x = left.schemes.get(name);
+      const y = right.schemes.get(name);
+      result.schemes.set(name, x && y ? new Set([...x].filter((scheme) => y.has(scheme))) : (x ?? y)!);
+    }
+    for (const name of new Set([...left.hosts.keys(), ...right.hosts.keys()])) {
+      const x = left.hosts.get(name);
+      const y = right.hosts.get(name);
+      const hosts = x && y ? [...x].filter((host) => hostCovered(y, host)) : [...(x ?? y)!];
+      if (x && y) hosts.push(...[...y].filter((host) => hostCovered(x, host)));
+      result.hosts.set(name, new Set(hosts));
+    }
+    for (const name of new Set([...left.forced.keys(), ...right.forced.keys()])) {
+      const kept = [
+        ...(left.forced.get(name) ?? []).filter((rule) => forcedAllowedBy(right, name, rule, config)),
+        ...(right.forced.get(name) ?? []).filter((rule) => forcedAllowedBy(left, name, rule, config))
+      ];
+      if (kept.length > 0) result.forced.set(name, uniqueForced(kept));
+    }
+    grants.set(tag, result);
+  }
+
+  const nestingAllowlist = new Map<string, Set<string>>();
+  for (const child of new Set([...first.nestingAllowlist.keys(), ...second.nestingAllowlist.keys()])) {
+    const x = first.nestingAllowlist.get(child);
+    const y = second.nestingAllowlist.get(child);
+    nestingAllowlist.set(child, x && y ? new Set([...x].filter((parent) => y.has(parent))) : new Set(x ?? y));
+  }
+  dropUnplaceableTags(tagCounts, nestingAllowlist);
+  const scopedTagCounts = combineNested(first.scopedTagCounts, second.scopedTagCounts, Math.min);
+
+  const styleAllowlist = new Map<string, Set<string>>();
+  for (const [selector, properties] of first.styleAllowlist) {
+    const other = second.styleAllowlist.get(selector);
+    const both = [...properties].filter((property) => other?.has(property));
+    if (both.length > 0) styleAllowlist.set(selector, new Set(both));
+  }
+  const renameRules = new Map([...first.renameRules].filter(([from, to]) => second.renameRules.get(from) === to));
+
+  return buildFromGrants(grants, { tagCounts, nestingAllowlist, scopedTagCounts, styleAllowlist, renameRules }, config);
+}
+
+/**
+ * Removes what `rules` allow from a policy. A tag rule lowers the tag's count
+ * by its own (`tag*` removes the tag); attribute, value, `@scheme`/`@host`,
+ * nesting, style, forced-attribute, and rename rules take away exactly what
+ * they name. Rules are subtracted from every tag they apply to, including
+ * tags that get them from `*|...` rules. Where the remainder cannot be
+ * written as rules, the result is narrower: subtracting one attribute from a
+ * `prefix*` family removes the family. Throws `RuleSyntaxError` for rules
+ * whose removal would widen or cannot be expressed: scoped counts, a nesting
+ * rule for a tag that may appear anywhere, and a scheme or host for an
+ * attribute whose URLs are unrestricted.
+ */
+export function subtractRules(policy: CompiledPolicy, rules: string[]): CompiledPolicy {
+  const internals = toInternals(policy);
+  // Compiled without config so every rule form is accepted, including forced
+  // event handlers.
+  const removed = toInternals(compileRules(rules, { dangerouslyAllowJavaScript: true }));
+
+  for (const [tag, byScope] of removed.scopedTagCounts) {
+    const [scope, count] = [...byScope][0];
+    throw new RuleSyntaxError(`${tag}{${count}}@${scope}`, "scoped counts cannot be subtracted");
+  }
+
+  const tagCounts = new Map<string, number>();
+  for (const [tag, count] of internals.tagCounts) {
+    const remaining = count - (removed.tagCounts.get(tag) ?? 0);
+    if (remaining > 0) tagCounts.set(tag, remaining);
+  }
+
+  const grants = new Map<string, TagAttributeGrants>();
+  for (const tag of new Set([...policyTags(internals), ...policyTags(removed)])) {
+    const kept = grantsFor(internals, tag);
+    const taken = grantsFor(removed, tag);
+    const result = emptyGrants();
+    const valueRemovals = [...taken.constraints.keys()];
+    for (const prefix of kept.prefixes) {
+      const overlaps = (name: string): boolean => name.startsWith(prefix) || prefix.startsWith(name);
+      if (![...taken.prefixes, ...taken.names, ...valueRemovals].some(overlaps)) result.prefixes.add(prefix);
+    }
+    const names = [...kept.names, ...kept.constraints.keys(), ...valueRemovals];
+    for (const name of new Set(names)) {
+      if (matchesAttrPrefix(name, result.prefixes)) continue;
+      const grant = grantFor(kept, name);
+      if (grant === null || grantFor(taken, name) === "any") continue;
+      const excluded = taken.constraints.get(name);
+      if (!excluded) {
+        if (grant === "any") result.names.add(name);
+        else result.constraints.set(name, grant);
+        continue;
+      }
+      const remaining = (grant === "any" ? [ANY_VALUE] : grant)
+        .map((constraint) => subtractConstraint(constraint, excluded))
+        .filter((constraint) => constraint !== null);
+      if (remaining.length > 0) result.constraints.set(name, remaining);
+    }
+
+    const granted = (name: string): boolean => grantFor(kept, name) !== null;
+    for (const [name, schemes] of kept.schemes) {
+      const excluded = taken.schemes.get(name);
+      result.schemes.set(name, excluded ? new Set([...schemes].filter((scheme) => !excluded.has(scheme))) : schemes);
+    }
+    for (const [name, hosts] of kept.hosts) {
+      const excluded = taken.hosts.get(name);
+      if (!excluded) {
+        result.hosts.set(name, hosts);
+        continue;
+      }
+      // A wildcard that covers a removed host cannot keep its other hosts.
+      const remaining = [...hosts].filter(
+        (host) => !hostCovered(excluded, host) && ![...excluded].some((gone) => hostCovered(new Set([host]), gone))
+      );
+      result.hosts.set(name, new Set(remaining));
+    }
+    for (const [modifier, excludedByName, keptByName] of [
+      ["scheme", taken.schemes, kept.schemes],
+      ["host", taken.hosts, kept.hosts]
+    ] as const) {
+      for (const [name, excluded] of excludedByName) {
+        if (granted(name) && !keptByName.has(name)) {
+          throw new RuleSyntaxError(
+            `${tag}|${name}@${modifier}=${[...excluded].join(",")}`,
+            `cannot be subtracted from an attribute whose URL ${modifier}s are unrestricted`
+          );
+        }
+      }
+    }
+
+    for (const [name, forced] of kept.forced) {
+      const excluded = taken.forced.get(name) ?? [];
+      const remaining = forced.filter(
+        (rule) => !excluded.some((gone) => gone.value === rule.value && gone.merge === rule.merge && !rule.ifAttribute)
+      );
+      if (remaining.length > 0) result.forced.set(name, remaining);
+    }
+    grants.set(tag, result);
+  }
+
+  const nestingAllowlist = new Map(
+    [...internals.nestingAllowlist].map(([child, parents]) => [child, new Set(parents)])
+  );
+  for (const [child, parents] of removed.nestingAllowlist) {
+    const allowed = nestingAllowlist.get(child);
+    if (allowed) {
+      for (const parent of parents) allowed.delete(parent);
+    } else if (internals.tagCounts.has(child)) {
+      throw new RuleSyntaxError(
+        `${[...parents][0]}>${child}`,
+        "cannot be subtracted from a tag that may appear anywhere"
+      );
+    }
+  }
+  dropUnplaceableTags(tagCounts, nestingAllowlist);
+
+  const styleAllowlist = new Map<string, Set<string>>();
+  for (const [selector, properties] of internals.styleAllowlist) {
+    const excluded = removed.styleAllowlist.get(selector);
+    const remaining = [...properties].filter((property) => !excluded?.has(property));
+    if (remaining.length > 0) styleAllowlist.set(selector, new Set(remaining));
+  }
+  const renameRules = new Map(
+    [...internals.renameRules].filter(([from, to]) => removed.renameRules.get(from) !== to)
+  );
+
+  return buildFromGrants(
+    grants,
+    {
+      tagCounts,
+      nestingAllowlist,
+      scopedTagCounts: combineNested(internals.scopedTagCounts, new Map(), Math.min),
+      styleAllowlist,
+      renameRules
+    },
+    internals.config
+  );
+}
+
+// Rules combined the way one rule list would combine them, with `count`
+// deciding how two counts for the same tag (or tag and scope) add up.
+function combinePolicies(
+  first: PolicyInternals,
+  second: PolicyInternals,
+  count: (x: number, y: number) => number,
+  config: SanitizerConfig,
+  onRenameConflict: (from: string, to: string, existing: string) => never
+): CompiledPolicy {
+  const renameRules = new Map(first.renameRules);
+  for (const [from, to] of second.renameRules) {
+    const existing = renameRules.get(from);
+    if (existing !== undefined && existing !== to) onRenameConflict(from, to, existing);
+    renameRules.set(from, to);
+  }
+  resolveRenameChains(renameRules);
+
+  const forcedAttributes = combineNested(first.forcedAttributes, second.forcedAttributes, (x, y) =>
+    uniqueForced([...x, ...y])
+  );
+  applyRelNoopener(forcedAttributes, config);
+
+  const internals: PolicyInternals = {
+    [POLICY_MARKER]: true,
+    tagCounts: combineMaps(first.tagCounts, second.tagCounts, count),
+    attrAllowlist: combineMaps(first.attrAllowlist, second.attrAllowlist, unionSets),
+    attrPrefixAllowlist: combineMaps(first.attrPrefixAllowlist, second.attrPrefixAllowlist, unionSets),
+    attrValueAllowlist: combineNested(first.attrValueAllowlist, second.attrValueAllowlist, (x, y) =>
+      uniqueConstraints([...x, ...y])
+    ),
+    urlSchemeAllowlist: combineNested(first.urlSchemeAllowlist, second.urlSchemeAllowlist, unionSets),
+    urlHostAllowlist: combineNested(first.urlHostAllowlist, second.urlHostAllowlist, unionSets),
+    nestingAllowlist: combineMaps(first.nestingAllowlist, second.nestingAllowlist, unionSets),
+    scopedTagCounts: combineNested(first.scopedTagCounts, second.scopedTagCounts, count),
+    styleAllowlist: combineMaps(first.styleAllowlist, second.styleAllowlist, unionSets),
+    forcedAttributes,
+    renameRules,
+    disallowedElements: parseDispositions("disallowedElements", config.disallowedElements),
+    overCountElements: parseDispositions("overCountElements", config.overCountElements),
+    config
+  };
+  return internals as unknown as CompiledPolicy;
+}
+
+// One tag's attribute policy with `*|...` rules and the allowCommonAttributes
+// defaults folded in, so two policies can be compared tag by tag. `names` and
+// `prefixes` admit any value; `constraints` admit matching values.
+type TagAttributeGrants = {
+  names: Set<string>;
+  prefixes: Set<string>;
+  constraints: Map<string, AttrValueConstraint[]>;
+  schemes: Map<string, Set<string>>;
+  hosts: Map<string, Set<string>>;
+  forced: Map<string, ForcedAttribute[]>;
+};
+
+const ANY_VALUE = patternConstraint("[\\s\\S]*", "");
+
+function emptyGrants(): TagAttributeGrants {
+  return {
+    names: new Set(),
+    prefixes: new Set(),
+    constraints: new Map(),
+    schemes: new Map(),
+    hosts: new Map(),
+    forced: new Map()
+  };
+}
+
+function grantsFor(policy: PolicyInternals, tag: string): TagAttributeGrants {
+  const grants = emptyGrants();
+  const keys = <T>(byTag: Map<string, Map<string, T>>): Set<string> =>
+    new Set([...(byTag.get(tag)?.keys() ?? []), ...(byTag.get("*")?.keys() ?? [])]);
+  grants.names = new Set([...(policy.attrAllowlist.get(tag) ?? []), ...(policy.attrAllowlist.get("*") ?? [])]);
+  grants.prefixes = new Set([
+    ...(policy.attrPrefixAllowlist.get(tag) ?? []),
+    ...(policy.attrPrefixAllowlist.get("*") ?? [])
+  ]);
+  for (const name of keys(policy.attrValueAllowlist)) {
+    grants.constraints.set(name, attrRulesFor(policy.attrValueAllowlist, tag, name));
+  }
+  if (policy.config.allowCommonAttributes ?? false) {
+    for (const name of [...COMMON_GLOBAL_ATTRS, ...(COMMON_ATTRS.get(tag) ?? [])]) {
+      if (!grants.constraints.has(name)) grants.names.add(name);
+    }
+  }
+  for (const name of keys(policy.urlSchemeAllowlist)) {
+    grants.schemes.set(name, attrSetRulesFor(policy.urlSchemeAllowlist, tag, name)!);
+  }
+  for (const name of keys(policy.urlHostAllowlist)) {
+    grants.hosts.set(name, attrSetRulesFor(policy.urlHostAllowlist, tag, name)!);
+  }
+  for (const name of keys(policy.forcedAttributes)) {
+    grants.forced.set(name, attrRulesFor(policy.forcedAttributes, tag, name));
+  }
+  return grants;
+}
+
+// How an attribute is allowed on a tag, in the order attributeViolation
+// checks it: any value, only values matching a constraint, or not at all.
+function grantFor(grants: TagAttributeGrants, name: string): "any" | AttrValueConstraint[] | null {
+  if (grants.names.has(name) || matchesAttrPrefix(name, grants.prefixes)) return "any";
+  return grants.constraints.get(name) ?? null;
+}
+
+// Every tag whose attribute policy can matter: tags a rule names (allowed,
+// renamed to, or a replaceWith: target) and the structural tags. Other tags
+// are never kept, so folding `*|...` rules into these loses nothing.
+function policyTags(policy: PolicyInternals): Set<string> {
+  const tags = new Set([...STRUCTURAL_TAGS, ...policy.tagCounts.keys(), ...policy.renameRules.values()]);
+  for (const byTag of [
+    policy.attrAllowlist,
+    policy.attrPrefixAllowlist,
+    policy.attrValueAllowlist,
+    policy.urlSchemeAllowlist,
+    policy.urlHostAllowlist,
+    policy.forcedAttributes
+  ]) {
+    for (const tag of byTag.keys()) tags.add(tag);
+  }
+  for (const disposition of [...policy.disallowedElements.values(), ...policy.overCountElements.values()]) {
+    if (disposition.action === "replace") tags.add(disposition.tag);
+  }
+  tags.delete("*");
+  return tags;
+}
+
+// A tag left with no allowed parent cannot appear anywhere.
+function dropUnplaceableTags(tagCounts: Map<string, number>, nestingAllowlist: Map<string, Set<string>>): void {
+  for (const [child, parents] of nestingAllowlist) {
+    if (parents.size > 0) continue;
+    nestingAllowlist.delete(child);
+    tagCounts.delete(child);
+  }
+}
+
+// Builds a policy whose attribute rules are keyed by concrete tags only, so
+// no `*` rule can reach a tag its grants were not computed for.
+function buildFromGrants(
+  grants: Map<string, TagAttributeGrants>,
+  parts: Pick<
+    PolicyInternals,
+    "tagCounts" | "nestingAllowlist" | "scopedTagCounts" | "styleAllowlist" | "renameRules"
+  >,
+  resolvedConfig: SanitizerConfig
+): CompiledPolicy {
+  // Common attributes are already in the grants; leaving the option on would
+  // let it re-admit an attribute whose constraints were narrowed away.
+  const config = { ...resolvedConfig, allowCommonAttributes: false };
+  const internals: PolicyInternals = {
+    [POLICY_MARKER]: true,
+    ...parts,
+    attrAllowlist: new Map(),
+    attrPrefixAllowlist: new Map(),
+    attrValueAllowlist: new Map(),
+    urlSchemeAllowlist: new Map(),
+    urlHostAllowlist: new Map(),
+    forcedAttributes: new Map(),
+    disallowedElements: parseDispositions("disallowedElements", config.disallowedElements),
+    overCountElements: parseDispositions("overCountElements", config.overCountElements),
+    config
+  };
+  for (const [tag, grant] of grants) {
+    if (grant.names.size > 0) internals.attrAllowlist.set(tag, grant.names);
+    if (grant.prefixes.size > 0) internals.attrPrefixAllowlist.set(tag, grant.prefixes);
+    if (grant.constraints.size > 0) internals.attrValueAllowlist.set(tag, grant.constraints);
+    if (grant.schemes.size > 0) internals.urlSchemeAllowlist.set(tag, grant.schemes);
+    if (grant.hosts.size > 0) internals.urlHostAllowlist.set(tag, grant.hosts);
+    const forced = new Map([...grant.forced].filter(([, rules]) => !rules.some((rule) => rule.ifAttribute)));
+    if (forced.size > 0) internals.forcedAttributes.set(tag, forced);
+  }
+  applyRelNoopener(internals.forcedAttributes, config);
+  return internals as unknown as CompiledPolicy;
+}
+
+// A forced value passes its own policy's attribute checks, so in an
+// intersection it is kept only where the other policy forces it too or
+// would keep it as written.
+function forcedAllowedBy(
+  grants: TagAttributeGrants,
+  name: string,
+  rule: ForcedAttribute,
+  config: SanitizerConfig
+): boolean {
+  if (rule.ifAttribute) return true;
+  if (name.startsWith("on") && !config.dangerouslyAllowJavaScript) return false;
+  const forced = grants.forced.get(name) ?? [];
+  if (forced.some((other) => other.value === rule.value && other.merge === rule.merge)) return true;
+  const grant = grantFor(grants, name);
+  if (grant === null) return false;
+  if (grant !== "any" && !grant.some((constraint) => matchesAttrValueConstraint(constraint, rule.value))) {
+    return false;
+  }
+  const schemes = grants.schemes.get(name);
+  if (schemes && !hasAllowedSchemes(name, rule.value, schemes)) return false;
+  const hosts = grants.hosts.get(name);
+  return !hosts || hasAllowedHosts(name, rule.value, hosts, config.baseUrl);
+}
+
+// Values matching both lists: exact values are filtered through the other
+// list, and two patterns become one with a lookahead when their flags agree.
+function intersectConstraints(x: AttrValueConstraint[], y: AttrValueConstraint[]): AttrValueConstraint[] {
+  const result: AttrValueConstraint[] = [];
+  for (const left of x) {
+    for (const right of y) {
+      const list = left.kind === "values" ? left.values : right.kind === "values" ? right.values : undefined;
+      if (list) {
+        const other = left.kind === "values" ? right : left;
+        const values = [...list].filter((value) => matchesAttrValueConstraint(other, value));
+        if (values.length > 0) result.push({ kind: "values", values: new Set(values) });
+      } else if (left.kind === "pattern" && right.kind === "pattern" && left.flags === right.flags) {
+        result.push(patternConstraint(`(?=(?:${left.source})$)(?:${right.source})`, left.flags));
+      }
+    }
+  }
+  return uniqueConstraints(result);
+}
+
+// A constraint minus the values `excluded` admits, or null when that cannot
+// be written as one constraint.
+function subtractConstraint(
+  constraint: AttrValueConstraint,
+  excluded: AttrValueConstraint[]
+): AttrValueConstraint | null {
+  if (constraint.kind === "values") {
+    const values = [...constraint.values].filter(
+      (value) => !excluded.some((gone) => matchesAttrValueConstraint(gone, value))
+    );
+    return values.length > 0 ? { kind: "values", values: new Set(values) } : null;
+  }
+  const patterns = excluded.filter((gone) => gone.kind === "pattern");
+  const flags = patterns[0]?.flags ?? constraint.flags;
+  const sameFlags = constraint === ANY_VALUE || constraint.flags === flags;
+  if (!sameFlags || patterns.some((gone) => gone.flags !== flags)) return null;
+  const alternatives = excluded.flatMap((gone) =>
+    gone.kind === "pattern" ? [gone.source] : [...gone.values].map(escapeRegExp)
+  );
+  const negated = alternatives.map((source) => `(?:${source})`).join("|");
+  return patternConstraint(`(?!(?:${negated})$)(?:${constraint.source})`, flags);
+}
+
+function patternConstraint(source: string, flags: string): AttrValueConstraint {
+  return { kind: "pattern", source, flags, regexp: new RegExp(`^(?:${source})$`, flags) };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[\\^$.*+?()[\]{}|/]/g, "\\$&");
+}
+
+function uniqueConstraints(constraints: AttrValueConstraint[]): AttrValueConstraint[] {
+  const seen = new Set<string>();
+  return constraints.filter((constraint) => {
+    const key =
+      constraint.kind === "values"
+        ? JSON.stringify(["values", ...constraint.values])
+        : JSON.stringify(["pattern", constraint.source, constraint.flags]);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function uniqueForced(rules: ForcedAttribute[]): ForcedAttribute[] {
+  const seen = new Set<string>();
+  return rules.filter((rule) => {
+    const key = JSON.stringify([rule.value, rule.merge, rule.ifAttribute ?? null]);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Whether `host` (possibly a `*.` wildcard) is within what `hosts` allows.
+function hostCovered(hosts: Set<string>, host: string): boolean {
+  if (hosts.has(host)) return true;
+  const name = host.startsWith("*.") ? host.slice(2) : host;
+  for (let dot = name.indexOf("."); dot !== -1; dot = name.indexOf(".", dot + 1)) {
+    if (hosts.has(`*${name.slice(dot)}`)) return true;
+  }
+  return false;
+}
+
+// The addRelNoopener rules are the only forced rules with `ifAttribute`;
+// they follow the combined config rather than either input's.
+function applyRelNoopener(
+  forcedAttributes: Map<string, Map<string, ForcedAttribute[]>>,
+  config: SanitizerConfig
+): void {
+  for (const [tag, byAttr] of forcedAttributes) {
+    for (const [attr, rules] of byAttr) {
+      const kept = rules.filter((rule) => !rule.ifAttribute);
+      if (kept.length > 0) byAttr.set(attr, kept);
+      else byAttr.delete(attr);
+    }
+    if (byAttr.size === 0) forcedAttributes.delete(tag);
+  }
+  if (!config.addRelNoopener) return;
+  for (const tag of ["a", "area", "form"]) {
+    if (!forcedAttributes.has(tag)) {
+      forcedAttributes.set(tag, new Map());
+    }
+    const byAttr = forcedAttributes.get(tag)!;
+    const rel = byAttr.get("rel") ?? [];
+    byAttr.set("rel", [...rel, { value: "noopener noreferrer", merge: true, ifAttribute: "target" }]);
+  }
+}
+
+function unionSets(x: Set<string>, y: Set<string>): Set<string> {
+  return new Set([...x, ...y]);
+}
+
+function combineMaps<T>(x: Map<string, T>, y: Map<string, T>, combine: (x: T, y: T) => T): Map<string, T> {
+  const result = new Map(x);
+  for (const [key, value] of y) {
+    const existing = result.get(key);
+    result.set(key, existing === undefined ? value : combine(existing, value));
+  }
+  return result;
+}
+
+function combineNested<T>(
+  x: Map<string, Map<string, T>>,
+  y: Map<string, Map<string, T>>,
+  combine: (x: T, y: T) => T
+): Map<string, Map<string, T>> {
+  return combineMaps(
+    new Map([...x].map(([key, inner]) => [key, new Map(inner)])),
+    new Map([...y].map(([key, inner]) => [key, new Map(inner)])),
+    (left, right) => combineMaps(left, right, combine)
+  );
+}
+
+// What an unset option means, so `false` and unset do not conflict.
+const CONFIG_DEFAULTS: SanitizerConfig = {
+  allowCommonAttributes: false,
+  dangerouslyAllowJavaScript: false,
+  allowDataImageUrls: false,
+  addRelNoopener: false,
+  maxPasses: 10,
+  excessDepth: "throw",
+  misplacedElements: "unwrap"
+};
+
+// The stricter of two values (defaults already applied), for options where
+// one is clearly stricter. An unset limit is no limit.
+const STRICTER_CONFIG: {
+  [K in keyof SanitizerConfig]?: (x: SanitizerConfig[K], y: SanitizerConfig[K]) => SanitizerConfig[K];
+} = {
+  allowCommonAttributes: (x, y) => x && y,
+  dangerouslyAllowJavaScript: (x, y) => x && y,
+  allowDataImageUrls: (x, y) => x && y,
+  addRelNoopener: (x, y) => x || y,
+  maxPasses: smallerLimit,
+  maxInputLength: smallerLimit,
+  maxElements: smallerLimit,
+  maxDepth: smallerLimit,
+  excessDepth: (x, y) => (x === "flatten" && y === "flatten" ? "flatten" : "throw")
+};
+
+function smallerLimit(x: number | undefined, y: number | undefined): number | undefined {
+  return x === undefined || y === undefined ? (x ?? y) : Math.min(x, y);
+}
+
+// `intersect` takes the stricter value wherever there is one, whatever the
+// caller asked for, so an intersection never allows more than either input.
+function resolveConfig(
+  first: SanitizerConfig,
+  second: SanitizerConfig,
+  options: PolicyCompositionOptions,
+  fallback: ConfigConflictResolution,
+  intersect: boolean
+): SanitizerConfig {
+  const config: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(first), ...Object.keys(second)]) as Set<keyof SanitizerConfig>;
+  for (const key of keys) {
+    const x = first[key] ?? CONFIG_DEFAULTS[key];
+    const y = second[key] ?? CONFIG_DEFAULTS[key];
+    const same =
+      x === y || (key !== "hooks" && x !== undefined && JSON.stringify(x) === JSON.stringify(y));
+    const stricter = STRICTER_CONFIG[key] as ((x: unknown, y: unknown) => unknown) | undefined;
+    const requested = options.onConfigConflict;
+    const resolution =
+      intersect && stricter
+        ? "stricter"
+        : ((typeof requested === "object" ? (requested[key] ?? fallback) : requested) ?? fallback);
+    let value: unknown;
+    if (same) value = x;
+    else if (resolution === "first") value = x;
+    else if (resolution === "second") value = y;
+    else if (resolution === "stricter" && stricter) value = stricter(x, y);
+    else {
+      const reason =
+        resolution === "stricter"
+          ? "differs and has no stricter value"
+          : `is ${describeConfigValue(x)} in the first policy and ${describeConfigValue(y)} in the second`;
+      throw new PolicyConflictError(`config.${key}`, reason);
+    }
+    if (value !== undefined) config[key] = value;
+  }
+  return config as SanitizerConfig;
+}
+
+function describeConfigValue(value: unknown): string {
+  if (value === undefined) return "unset";
+  if (typeof value === "function" || value instanceof AbortSignal) return "set";
+  return typeof value === "object" && value !== null && Object.values(value).some((v) => typeof v === "function")
+    ? "set"
+    : JSON.stringify(value);
+}
+
+/**
+ * Translates a compiled policy into a configuration for the browser HTML
+ * Sanitizer API. `unsupported` lists every part of the policy the returned
+ * configuration does not enforce; when it is empty, `element.setHTML(html,
+ * { sanitizer: config })` keeps the same elements and attributes as this
+ * library would.
+ */
+export function toSanitizerApiConfig(policy: CompiledPolicy): SanitizerApiTranslation {
+  const internals = toInternals(policy);
+  const { config } = internals;
+  const allowJavaScript = config.dangerouslyAllowJavaScript ?? false;
+  const allowCommon = config.allowCommonAttributes ?? false;
+  const unsupported: SanitizerApiGap[] = [];
+  const gap = (feature: SanitizerApiGap["feature"], detail: string): void => {
+    unsupported.push({ feature, detail });
+  };
+
+  // Attribute names the policy allows on `tag` with any value. Names whose
+  // values it narrows are left out, since setHTML would keep any value; that
+  // includes common attributes, which a value constraint narrows too.
+  const attributesFor = (tag: string): string[] => {
+    const names = new Set(internals.attrAllowlist.get(tag));
+    if (allowCommon) {
+      for (const name of tag === "*" ? COMMON_GLOBAL_ATTRS : (COMMON_ATTRS.get(tag) ?? [])) {
+        if (attrRulesFor(internals.attrValueAllowlist, tag, name).length === 0) names.add(name);
+      }
+    }
+    const kept: string[] = [];
+    for (const name of names) {
+      if (name.startsWith("on") && !allowJavaScript) continue;
+      if (name === "style") {
+        gap("style", `the style attribute on ${describeTag(tag)} is filtered by style rules`);
+      } else if (
+        attrSetRulesFor(internals.urlSchemeAllowlist, tag, name) ||
+        attrSetRulesFor(internals.urlHostAllowlist, tag, name)
+      ) {
+        gap("url-rule", `${name} on ${describeTag(tag)} is limited by @scheme or @host rules`);
+      } else {
+        kept.push(name);
+      }
+    }
+    for (const name of internals.attrValueAllowlist.get(tag)?.keys() ?? []) {
+      if (!names.has(name)) gap("attribute-value", `${name} on ${describeTag(tag)} is limited to certain values`);
+    }
+    return kept.sort();
+  };
+
+  const attributes = attributesFor("*");
+  const global = new Set(attributes);
+  const elements: SanitizerApiConfig["elements"] = [];
+  for (const [tag, count] of internals.tagCounts) {
+    if (STRUCTURAL_TAGS.has(tag) || (tag === "script" && !allowJavaScript)) continue;
+    if (tag === "style") {
+      gap("style", "<style> elements are filtered by style rules");
+      continue;
+    }
+    if (count !== Infinity) gap("tag-count", `at most ${count} <${tag}>`);
+    elements.push({ name: tag, attributes: attributesFor(tag).filter((name) => !global.has(name)) });
+  }
+  elements.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  let dataAttributes = false;
+  for (const [tag, prefixes] of internals.attrPrefixAllowlist) {
+    for (const prefix of prefixes) {
+      if (tag === "*" && prefix === "data-") {
+        dataAttributes = true;
+      } else {
+        gap("attribute-prefix", `${prefix}* on ${describeTag(tag)}`);
+      }
+    }
+  }
+  for (const [child, parents] of internals.nestingAllowlist) {
+    gap("nesting", `<${child}> only inside ${[...parents].map((parent) => `<${parent}>`).join(", ")}`);
+  }
+  for (const [tag, scopes] of internals.scopedTagCounts) {
+    for (const [scope, count] of scopes) {
+      gap("scoped-tag-count", `at most ${count} <${tag}> per <${scope}>`);
+    }
+  }
+  for (const [tag, byAttribute] of internals.forcedAttributes) {
+    for (const name of byAttribute.keys()) {
+      gap("forced-attribute", `${name} is set on ${describeTag(tag)}`);
+    }
+  }
+  for (const [from, to] of internals.renameRules) {
+    gap("rename", `<${from}> is renamed to <${to}>`);
+  }
+
+  // setHTML removes elements outside `elements` with their content, which
+  // matches only an explicit "remove" default here.
+  const verbs = { unwrap: "unwrapped", remove: "removed", escape: "escaped", replace: "replaced" };
+  const defaultAction = internals.disallowedElements.get("*")?.action ?? "unwrap";
+  if (defaultAction !== "remove") {
+    gap("disposition", `disallowed elements are ${verbs[defaultAction]} rather than removed with their content`);
+  }
+  const replaceWithChildrenElements: string[] = [];
+  for (const [tag, { action }] of internals.disallowedElements) {
+    if (tag === "*" || internals.tagCounts.has(tag) || action === "remove") continue;
+    if (action === "unwrap") replaceWithChildrenElements.push(tag);
+    else gap("disposition", `disallowed <${tag}> is ${verbs[action]}`);
+  }
+
+  if (allowJavaScript) gap("javascript", "setHTML always removes scripts and event handlers");
+  if (config.allowDataImageUrls && !allowJavaScript) {
+    gap("data-image-urls", "data: image URLs on img|src and img|srcset");
+  }
+  for (const option of ["hooks", "truncate", "maxInputLength", "maxElements"] as const) {
+    if (config[option] !== undefined) gap("config", option);
+  }
+
+  return {
+    config: {
+      elements,
+      ...(replaceWithChildrenElements.length > 0
+        ? { replaceWithChildrenElements: replaceWithChildrenElements.sort() }
+        : {}),
+      attributes,
+      comments: false,
+      dataAttributes
+    },
+    unsupported
+  };
+}
+
+function describeTag(tag: string): string {
+  return tag === "*" ? "every element" : `<${tag}>`;
+}
+
+/**
+ * Bring your own DOM. Returns a sanitizer bound to `window`, deriving the
+ * HTML parser from `window.DOMParser` and initializing DOMPurify against
+ * `window`. Use this to run on a DOM implementation you control — a browser
+ * `window`, a jsdom `window`, a linkedom window, or a happy-dom `Window` you
+ * configured yourself — instead of relying on the Node entry's bundled
+ * happy-dom fallback. Nothing here loads `happy-dom`.
+ */
+export function createSanitizer(window: SanitizerWindow): Sanitizer {
+  return createSanitizerFromEnvironment({
+    getDomParser: () => new window.DOMParser(),
+    getDomWindow: () => window
+  });
+}
+
+export function createSanitizerFromEnvironment(env: DomEnvironment): Sanitizer {
+  let cachedPurify: { window: WindowLike; purifier: ReturnType<typeof createDOMPurify> } | null = null;
+  // The policy of the DOMPurify call in progress. DOMPurify hooks are
+  // registered once per purifier instance, so they read the policy from here.
+  let activePolicy: PolicyInternals | null = null;
+
+  function sanitize(html: string, rules: string[], config: SanitizerConfig = {}, options?: SanitizeOptions): string {
+    return sanitizeWithPolicy(html, compileRules(rules, config), options);
+  }
+
+  function sanitizeWithPolicy(html: string, policy: CompiledPolicy, options: SanitizeOptions = {}): string {
+    const internals = toInternals(policy);
+    return runToFixedPoint(html, internals, options, undefined, (converged) =>
+      formatOutput(converged, internals, undefined)
+    );
+  }
+
+  function sanitizeWithReport(html: string, policy: CompiledPolicy, options: SanitizeOptions = {}): SanitizeReport {
+    const internals = toInternals(policy);
+    const actions: SanitizeAction[] = [];
+    const report = (action: SanitizeAction): void => {
+      actions.push(action);
+    };
+    const output = runToFixedPoint(html, internals, options, report, (converged) =>
+      formatOutput(converged, internals, report)
+    );
+    return { html: output, actions };
+  }
+
+  // setHTML is only used when it enforces the whole policy; otherwise it
+  // would silently keep what the policy's counts or value rules reject. It
+  // runs natively in one step, so `options` only bound the fallback.
+  function sanitizeInto(element: Element, html: string, policy: CompiledPolicy, options?: SanitizeOptions): void {
+    const target = element as Element & {
+      setHTML?: (html: string, options: { sanitizer: SanitizerApiConfig }) => void;
+    };
+    if (typeof target.setHTML === "function") {
+      const { config, unsupported } = toSanitizerApiConfig(policy);
+      if (unsupported.length === 0) {
+        target.setHTML(html, { sanitizer: config });
+        return;
+      }
+    }
+    element.replaceChildren(sanitizeToFragment(html, policy, options));
+  }
+
+  function sanitizeToTrustedHTML(html: string, policy: CompiledPolicy, options?: SanitizeOptions): TrustedHTML {
+    const name = toInternals(policy).config.trustedTypesPolicyName ?? DEFAULT_TRUSTED_TYPES_POLICY_NAME;
+    const trustedTypesPolicy = trustedTypesPolicyFor(env.getDomWindow(), name);
+    if (!trustedTypesPolicy) {
+      throw new Error(
+        `Trusted Types are unavailable: this window has no trustedTypes, or it refused to create the ` +
+          `"${name}" policy (add it to the page's trusted-types CSP directive).`
+      );
+    }
+    return trustedTypesPolicy.createHTML(sanitizeWithPolicy(html, policy, options));
+  }
+
+  // The default policy is what the browser calls when a plain string reaches
+  // an HTML sink. Its callback re-enters the sanitizer, whose own parsing must
+  // then go through the private policy; without it, that parsing would call
+  // the default policy again, so registration requires it.
+  function registerDefaultTrustedTypesPolicy(policy: CompiledPolicy): Pick<TrustedTypePolicy, "name" | "createHTML"> {
+    const name = toInternals(policy).config.trustedTypesPolicyName ?? DEFAULT_TRUSTED_TYPES_POLICY_NAME;
+    const domWindow = env.getDomWindow();
+    if (!domWindow.trustedTypes || !trustedTypesPolicyFor(domWindow, name)) {
+      throw new Error(
+        `Cannot register a default Trusted Types policy: this window has no trustedTypes, or it refused ` +
+          `to create the "${name}" policy the sanitizer needs for its own parsing.`
+      );
+    }
+    return domWindow.trustedTypes.createPolicy("default", {
+      createHTML: (input: string) => sanitizeWithPolicy(input, policy)
+    });
   }
-  return candidate;
-}
 
-/**
- * Bring your own DOM. Returns a sanitizer bound to `window`, deriving the
- * HTML parser from `window.DOMParser` and initializing DOMPurify against
- * `window`. Use this to run on a DOM implementation you control — a browser
- * `window`, a jsdom `window`, a linkedom window, or a happy-dom `Window` you
- * configured yourself — instead of relying on the Node entry's bundled
- * happy-dom fallback. Nothing here loads `happy-dom`.
- */
-export function createSanitizer(window: SanitizerWindow): Sanitizer {
-  return createSanitizerFromEnvironment({
-    getDomParser: () => new window.DOMParser(),
-    getDomWindow: () => window
-  });
-}
+  // Under `require-trusted-types-for 'script'`, DOMParser only accepts
+  // TrustedHTML. Parsing into a DOMParser document does not run anything, so
+  // the private policy, once a Trusted Types entry point has created it,
+  // hands the string through unchanged.
+  function parseHtml(html: string): Document {
+    const trustedTypesPolicy = existingTrustedTypesPolicy(env.getDomWindow());
+    const input = trustedTypesPolicy ? (trustedTypesPolicy.createHTML(html) as unknown as string) : html;
+    return env.getDomParser().parseFromString(input, "text/html");
+  }
 
-export function createSanitizerFromEnvironment(env: DomEnvironment): Sanitizer {
-  let cachedPurify: { window: WindowLike; purifier: ReturnType<typeof createDOMPurify> } | null = null;
+  // The converged document is already a DOMPurify fixed point, so running it
+  // through DOMPurify once more with RETURN_DOM_FRAGMENT yields the same
+  // content as nodes, with no serialize-and-reparse on the caller's side.
+  function sanitizeToFragment(html: string, policy: CompiledPolicy, options: SanitizeOptions = {}): DocumentFragment {
+    const internals = toInternals(policy);
+    return runToFixedPoint(html, internals, options, undefined, (converged) => {
+      const fragment = applyDomPurify(converged, internals, undefined, true);
+      if (internals.config.truncate) {
+        truncateBody(fragment, internals.config.truncate, undefined);
+      }
+      const doc = env.getDomWindow().document;
+      return doc ? doc.adoptNode(fragment) : fragment;
+    });
+  }
 
-  function sanitize(html: string, rules: string[], config: SanitizerConfig = {}): string {
-    return sanitizeWithPolicy(html, compileRules(rules, config));
+  // Validation is sanitization with the output discarded: any action the
+  // sanitizer would take is a violation, so the two can never disagree.
+  function assertConforms(html: string, policy: CompiledPolicy, options?: SanitizeOptions): string {
+    const { actions } = sanitizeWithReport(html, policy, options);
+    if (actions.length > 0) {
+      throw new PolicyViolationError(actions);
+    }
+    return html;
   }
 
-  function sanitizeWithPolicy(html: string, policy: CompiledPolicy): string {
-    const internals = toInternals(policy);
+  function runToFixedPoint<T>(
+    html: string,
+    internals: PolicyInternals,
+    { deadlineMs, signal }: SanitizeOptions,
+    report: Reporter,
+    finish: (converged: string) => T
+  ): T {
+    if (deadlineMs !== undefined && !(deadlineMs > 0 && Number.isFinite(deadlineMs))) {
+      throw new TypeError(`deadlineMs must be a positive number, got ${JSON.stringify(deadlineMs)}`);
+    }
+    const { maxInputLength } = internals.config;
+    if (maxInputLength !== undefined && html.length > maxInputLength) {
+      throw new ResourceLimitError("maxInputLength", maxInputLength);
+    }
     const maxPasses = internals.config.maxPasses ?? 10;
+    const startedAt = performance.now();
+    let pass = 0;
+    const checkBudget = (): void => {
+      if (signal?.aborted) throw new SanitizeTimeoutError(pass, { cause: signal.reason });
+      if (deadlineMs !== undefined && performance.now() - startedAt > deadlineMs) {
+        throw new SanitizeTimeoutError(pass);
+      }
+    };
 
     let current = html;
-    for (let pass = 0; pass < maxPasses; pass += 1) {
-      const next = sanitizeOnce(current, internals);
-      if (next === current) {
-        return formatOutput(next, internals);
+    try {
+      for (; pass < maxPasses; pass += 1) {
+        checkBudget();
+        const next = sanitizeOnce(current, internals, report, checkBudget);
+        if (next === current) {
+          return finish(next);
+        }
+        current = next;
+      }
+    } catch (error) {
+      // The sanitizer's own walks never recurse, but the DOM implementation's
+      // may (happy-dom serializes and reparents subtrees recursively), and so
+      // may a hook, so a document within maxDepth can still overflow the stack.
+      if (isStackOverflow(error)) {
+        throw new ResourceLimitError("callStack", internals.config.maxDepth ?? Infinity, { cause: error });
       }
-      current = next;
+      throw error;
     }
 
     // Exhausted the budget without two consecutive passes agreeing, so the
@@ -282,19 +2710,26 @@ export function createSanitizerFromEnvironment(env: DomEnvironment): Sanitizer {
     throw new ConvergenceError(maxPasses);
   }
 
-  function formatOutput(html: string, policy: PolicyInternals): string {
-    if ((policy.config.outputFormat ?? "fragment") !== "fragment") {
+  function formatOutput(html: string, policy: PolicyInternals, report: Reporter): string {
+    const { truncate } = policy.config;
+    const asFragment = (policy.config.outputFormat ?? "fragment") === "fragment";
+    if (!asFragment && !truncate) {
       return html;
     }
-    const doc = env.getDomParser().parseFromString(html, "text/html");
+    const doc = parseHtml(html);
+    if (truncate && doc.body) {
+      truncateBody(doc.body, truncate, report);
+    }
+    if (!asFragment) {
+      return doc.documentElement.outerHTML;
+    }
     return doc.body ? doc.body.innerHTML : "";
   }
 
-  function sanitizeOnce(html: string, policy: PolicyInternals): string {
-    const { tagCounts, attrAllowlist, styleAllowlist } = policy;
-    const allowCommonAttributes = policy.config.allowCommonAttributes ?? false;
+  function sanitizeOnce(html: string, policy: PolicyInternals, report: Reporter, checkBudget: () => void): string {
+    const { tagCounts, styleAllowlist } = policy;
+    const { hooks } = policy.config;
     const allowJavaScript = policy.config.dangerouslyAllowJavaScript ?? false;
-    const allowDataImageUrls = policy.config.allowDataImageUrls ?? false;
     const allowStyleTag = (tagCounts.get("style") ?? 0) > 0 && styleAllowlist.size > 0;
     let totalAllowedTags = 0;
     for (const [tag, count] of tagCounts) {
@@ -304,91 +2739,227 @@ export function createSanitizerFromEnvironment(env: DomEnvironment): Sanitizer {
 
     env.onPassStart?.();
 
-    const parser = env.getDomParser();
     // Wrapping in <body> keeps leading/trailing whitespace and any content
     // that would otherwise land "before html" attached to the body, so
     // fragment output round-trips through another sanitize() call unchanged.
-    const doc = parser.parseFromString(`<body>${html}</body>`, "text/html");
+    const doc = parseHtml(`<body>${html}</body>`);
     const root = doc.documentElement;
+    enforceTreeLimits(root, policy.config, report);
     const elements: Element[] = [];
     collectElements(root, elements);
     const usedTagCounts = new Map<string, number>();
     let usedTotalTags = 0;
     let countsSaturated = totalAllowedTags === 0;
+    // Per-scope usage for `tag{n}@scope` rules, keyed by tag and then by the
+    // scope element instance the count belongs to.
+    const usedScopedCounts = new Map<string, Map<Element, number>>();
+    // Wrappers created this pass for misplaced elements, so consecutive
+    // misplaced siblings share one wrapper instead of getting one each.
+    const wrappers = new Set<Element>();
+
+    // Picks the tag to wrap a misplaced element in: the first parent its
+    // nesting rules name that is itself allowed, has count left, and may sit
+    // where the element is now. Returns null to fall back to unwrapping.
+    function wrapperTagFor(allowedParents: Set<string>, currentParent: string): string | null {
+      for (const candidate of allowedParents) {
+        if ((usedTagCounts.get(candidate) ?? 0) >= (tagCounts.get(candidate) ?? 0)) continue;
+        const candidateParents = policy.nestingAllowlist.get(candidate);
+        if (candidateParents && !candidateParents.has(currentParent)) continue;
+        return candidate;
+      }
+      return null;
+    }
+
+    // Why an element cannot be kept as `tag`, or null if it can. A passing
+    // scoped-count check consumes the element's place in its scopes.
+    function rejectionFor(element: Element, tag: string): SanitizeReason | null {
+      const allowedCount = tagCounts.get(tag) ?? 0;
+      if (allowedCount === 0) return "not-allowlisted";
+      if (countsSaturated || (usedTagCounts.get(tag) ?? 0) >= allowedCount) return "count-exceeded";
+      const scopes = policy.scopedTagCounts.get(tag);
+      if (scopes && !consumeScopedCounts(element, tag, scopes, usedScopedCounts)) return "scoped-count-exceeded";
+      return null;
+    }
+
+    function dispositionFor(rejection: SanitizeReason, tag: string, allowReplace: boolean): Disposition {
+      const disallowed = rejection === "not-allowlisted";
+      const byTag = disallowed ? policy.disallowedElements : policy.overCountElements;
+      const fallback: Disposition = { action: disallowed ? "unwrap" : "remove" };
+      const explicit = byTag.get(tag);
+      let disposition = explicit ?? byTag.get("*") ?? fallback;
+      if (disposition.action === "replace" && !allowReplace) disposition = fallback;
+      if (disposition.action === "unwrap" && explicit?.action !== "unwrap" && DROP_CONTENT_TAGS.has(tag)) {
+        return { action: "remove" };
+      }
+      return disposition;
+    }
 
-    for (const element of elements) {
+    let processed = 0;
+    for (let element of elements) {
+      processed += 1;
+      if (processed % BUDGET_CHECK_INTERVAL === 0) checkBudget();
       if (!isElementLive(element, root)) continue;
-      const tag = element.tagName.toLowerCase();
+      let tag = element.tagName.toLowerCase();
+
+      if (hooks?.beforeElement && !STRUCTURAL_TAGS.has(tag)) {
+        const result = hooks.beforeElement(element, tag);
+        if (result === "remove") {
+          report?.({ type: "element-removed", reason: "hook", tag });
+          element.remove();
+          continue;
+        }
+        if (result === "unwrap") {
+          report?.({ type: "element-unwrapped", reason: "hook", tag });
+          unwrapElement(element);
+          continue;
+        }
+        if (typeof result === "object" && result !== element) {
+          report?.({ type: "element-replaced", reason: "hook", tag });
+          element.replaceWith(result);
+          element = result;
+          tag = element.tagName.toLowerCase();
+        }
+      }
+
+      const renamedTo = policy.renameRules.get(tag);
+      if (renamedTo !== undefined) {
+        report?.({ type: "element-renamed", reason: "rename-rule", tag, renamedTo });
+        element = renameElement(element, renamedTo);
+        tag = renamedTo;
+      }
       const isStructural = STRUCTURAL_TAGS.has(tag);
 
       if (!allowJavaScript && tag === "script") {
+        report?.({ type: "element-removed", reason: "script", tag });
         element.remove();
         continue;
       }
 
       if (tag === "style" && !allowStyleTag) {
+        report?.({ type: "element-removed", reason: "style-not-allowed", tag });
         element.remove();
         continue;
       }
 
       if (!isStructural) {
-        const allowedCount = tagCounts.get(tag) ?? 0;
-        if (countsSaturated) {
-          if (allowedCount === 0) {
-            unwrapElement(element);
-          } else {
-            element.remove();
+        let rejection = rejectionFor(element, tag);
+        if (rejection) {
+          let disposition = dispositionFor(rejection, tag, true);
+          if (disposition.action === "replace") {
+            report?.({ type: "element-replaced", reason: rejection, tag, renamedTo: disposition.tag });
+            element = renameElement(element, disposition.tag);
+            tag = disposition.tag;
+            rejection = rejectionFor(element, tag);
+            if (rejection) disposition = dispositionFor(rejection, tag, false);
+          }
+          if (rejection) {
+            if (disposition.action === "remove") {
+              report?.({ type: "element-removed", reason: rejection, tag });
+              element.remove();
+            } else if (disposition.action === "escape") {
+              report?.({ type: "element-escaped", reason: rejection, tag });
+              escapeElement(element, tag);
+            } else {
+              report?.({ type: "element-unwrapped", reason: rejection, tag });
+              unwrapElement(element);
+            }
+            continue;
           }
-          continue;
-        }
-
-        if (allowedCount === 0) {
-          unwrapElement(element);
-          continue;
         }
 
-        const usedCount = usedTagCounts.get(tag) ?? 0;
-        if (usedCount >= allowedCount) {
-          element.remove();
-          continue;
+        const allowedParents = policy.nestingAllowlist.get(tag);
+        const parentTag = parentTagOf(element);
+        const placed =
+          !allowedParents ||
+          allowedParents.has(parentTag) ||
+          allowedThroughImpliedWrapper(element, tag, allowedParents);
+        if (!placed) {
+          const action = policy.config.misplacedElements ?? "unwrap";
+          const wrapperTag = action === "wrap" ? wrapperTagFor(allowedParents, parentTag) : null;
+          if (action === "remove") {
+            report?.({ type: "element-removed", reason: "misplaced", tag });
+            element.remove();
+            continue;
+          }
+          if (!wrapperTag) {
+            report?.({ type: "element-unwrapped", reason: "misplaced", tag });
+            unwrapElement(element);
+            continue;
+          }
+          report?.({ type: "element-wrapped", reason: "misplaced", tag });
+          if (wrapInto(element, wrapperTag, wrappers)) {
+            usedTagCounts.set(wrapperTag, (usedTagCounts.get(wrapperTag) ?? 0) + 1);
+            usedTotalTags += 1;
+          }
         }
 
-        usedTagCounts.set(tag, usedCount + 1);
+        usedTagCounts.set(tag, (usedTagCounts.get(tag) ?? 0) + 1);
         usedTotalTags += 1;
       }
-      filterAttributes(
-        element,
-        tag,
-        attrAllowlist,
-        styleAllowlist,
-        allowCommonAttributes,
-        allowJavaScript,
-        allowDataImageUrls
-      );
+      filterAttributes(element, tag, policy, report, hooks);
+      if (!isStructural) {
+        applyForcedAttributes(element, tag, policy, report);
+      }
       if (!isStructural && !countsSaturated && usedTotalTags >= totalAllowedTags) {
         countsSaturated = true;
       }
 
       if (tag === "style") {
-        filterStyleElement(element, styleAllowlist);
+        filterStyleElement(element, styleAllowlist, report, hooks?.onStyleDeclaration);
         if (!element.isConnected) {
           continue;
         }
       }
+
+      if (hooks?.afterElement && !isStructural) {
+        const result = hooks.afterElement(element, tag);
+        if (result === "remove") {
+          report?.({ type: "element-removed", reason: "hook", tag });
+          element.remove();
+          continue;
+        }
+        if (result === "unwrap") {
+          report?.({ type: "element-unwrapped", reason: "hook", tag });
+          unwrapElement(element);
+          continue;
+        }
+        filterAttributes(element, tag, policy, report, undefined);
+      }
     }
 
     const output = doc.documentElement.outerHTML;
-    return applyDomPurify(output, policy);
+    checkBudget();
+    return applyDomPurify(output, policy, report);
   }
 
-  function applyDomPurify(html: string, policy: PolicyInternals): string {
+  function applyDomPurify(html: string, policy: PolicyInternals, report: Reporter): string;
+  function applyDomPurify(
+    html: string,
+    policy: PolicyInternals,
+    report: Reporter,
+    returnFragment: true
+  ): DocumentFragment;
+  function applyDomPurify(
+    html: string,
+    policy: PolicyInternals,
+    report: Reporter,
+    returnFragment = false
+  ): string | DocumentFragment {
     const domWindow = env.getDomWindow();
     ensureSpecCompliantNodeName(domWindow);
     if (!cachedPurify || (cachedPurify.window as unknown) !== (domWindow as unknown)) {
-      cachedPurify = {
-        window: domWindow,
-        purifier: createDOMPurify(domWindow)
-      };
+      const purifier = createDOMPurify(domWindow);
+      // ALLOWED_ATTR is one flat list across all tags, so on its own DOMPurify
+      // would keep `href` on a `<div>` whenever any tag allows `href` (and
+      // every data-*/aria-* attribute by default). This hook re-applies the
+      // per-tag policy so the second layer enforces it independently.
+      purifier.addHook("uponSanitizeAttribute", (node, data) => {
+        if (!activePolicy) return;
+        if (attributeViolation(activePolicy, node.nodeName.toLowerCase(), data.attrName, data.attrValue)) {
+          data.keepAttr = false;
+        }
+      });
+      cachedPurify = { window: domWindow, purifier };
     }
     const allowJavaScript = policy.config.dangerouslyAllowJavaScript ?? false;
     const allowedTagSet = new Set<string>(policy.tagCounts.keys());
@@ -405,6 +2976,11 @@ export function createSanitizerFromEnvironment(env: DomEnvironment): Sanitizer {
         allowedAttrs.add(attr);
       }
     }
+    for (const byAttr of [...policy.attrValueAllowlist.values(), ...policy.forcedAttributes.values()]) {
+      for (const attr of byAttr.keys()) {
+        allowedAttrs.add(attr);
+      }
+    }
     if (policy.config.allowCommonAttributes) {
       for (const attr of COMMON_GLOBAL_ATTRS) {
         allowedAttrs.add(attr);
@@ -415,21 +2991,122 @@ export function createSanitizerFromEnvironment(env: DomEnvironment): Sanitizer {
         }
       }
     }
+    // Attribute families (`tag|data-*`) cannot be listed by name, so they
+    // reach DOMPurify as a predicate. DOMPurify still applies its URI checks
+    // to anything the predicate admits.
+    const prefixRules = policy.attrPrefixAllowlist;
+    const allowPrefixedAttr = (name: string, tag: string): boolean =>
+      (allowJavaScript || !name.startsWith("on")) &&
+      matchesAttrPrefix(name, [...(prefixRules.get(tag) ?? []), ...(prefixRules.get("*") ?? [])]);
     // Only widen past DOMPurify's default scheme allowlist when our own
     // pre-filtering (isDangerousUrl) is actually guaranteed to have run and
     // constrained data: to safe-mimetype img|src / img|srcset values. That
     // pre-filtering is skipped entirely when dangerouslyAllowJavaScript is
     // true, so the regexp must stay at DOMPurify's default in that combination.
     const allowDataImageUrls = !allowJavaScript && (policy.config.allowDataImageUrls ?? false);
-    return cachedPurify.purifier.sanitize(html, {
-      ALLOWED_TAGS: allowedTags,
-      ALLOWED_ATTR: Array.from(allowedAttrs),
-      WHOLE_DOCUMENT: true,
-      ...(allowDataImageUrls ? { ALLOWED_URI_REGEXP: ALLOWED_URI_REGEXP_WITH_DATA } : {})
-    }) as string;
+    const { purifier } = cachedPurify;
+    // Handing DOMPurify our policy, or `null` while there is none, keeps it
+    // from creating its own, which a page's trusted-types directive would
+    // then have to allow as well.
+    const trustedTypesPolicy = existingTrustedTypesPolicy(domWindow);
+    let output: string | DocumentFragment;
+    activePolicy = policy;
+    try {
+      output = purifier.sanitize(html, {
+        ALLOWED_TAGS: allowedTags,
+        ALLOWED_ATTR: Array.from(allowedAttrs),
+        ...(prefixRules.size > 0 ? { ADD_ATTR: allowPrefixedAttr } : {}),
+        // A fragment holds the body's content, so it is built from the body
+        // rather than the whole document.
+        ...(returnFragment ? { RETURN_DOM_FRAGMENT: true } : { WHOLE_DOCUMENT: true }),
+        ...(allowDataImageUrls ? { ALLOWED_URI_REGEXP: ALLOWED_URI_REGEXP_WITH_DATA } : {}),
+        TRUSTED_TYPES_POLICY: trustedTypesPolicy as TrustedTypePolicy | null
+      });
+    } finally {
+      activePolicy = null;
+    }
+    if (report) {
+      for (const removed of purifier.removed) {
+        // Comments are never part of a policy, so dropping one is not a
+        // change to report (or a reason for assertConforms to reject).
+        if ("element" in removed && removed.element.nodeType === 8) continue;
+        if ("element" in removed) {
+          report({ type: "element-removed", reason: "dompurify", tag: removed.element.nodeName.toLowerCase() });
+        } else if (removed.attribute) {
+          report({
+            type: "attribute-removed",
+            reason: "dompurify",
+            tag: removed.from.nodeName.toLowerCase(),
+            attribute: removed.attribute.name.toLowerCase(),
+            value: snippet(removed.attribute.value)
+          });
+        }
+      }
+    }
+    return output;
+  }
+
+  return {
+    sanitize,
+    sanitizeWithPolicy,
+    sanitizeWithReport,
+    assertConforms,
+    sanitizeToFragment,
+    sanitizeInto,
+    sanitizeToTrustedHTML,
+    registerDefaultTrustedTypesPolicy
+  };
+}
+
+// The name of the Trusted Types policy the sanitizer creates on a window the
+// first time sanitizeToTrustedHTML or registerDefaultTrustedTypesPolicy runs
+// there, unless the policy's config sets `trustedTypesPolicyName`.
+const DEFAULT_TRUSTED_TYPES_POLICY_NAME = "html-allowlist";
+// The `tt-policy-name` grammar of the trusted-types CSP directive.
+const TRUSTED_TYPES_POLICY_NAME_PATTERN = /^[-#a-zA-Z0-9=_/@.%]+$/;
+// One per window and name, because createPolicy throws on a duplicate name.
+// `null` records that the window has no Trusted Types or refused the name.
+type PrivateTrustedTypesPolicy = Pick<TrustedTypePolicy, "createHTML" | "createScriptURL">;
+const trustedTypesPolicies = new WeakMap<WindowLike, Map<string, PrivateTrustedTypesPolicy | null>>();
+
+// The sanitizer's private Trusted Types policy, created on first call. It
+// passes strings through unchanged, so it is never handed out: it only wraps
+// input on its way into an inert DOMParser document and output that has
+// already been sanitized. Only the Trusted Types entry points call this;
+// plain sanitizing uses the policy if it exists and never creates it.
+function trustedTypesPolicyFor(domWindow: WindowLike, name: string): PrivateTrustedTypesPolicy | null {
+  let byName = trustedTypesPolicies.get(domWindow);
+  if (!byName) {
+    byName = new Map();
+    trustedTypesPolicies.set(domWindow, byName);
   }
+  let policy = byName.get(name);
+  if (policy === undefined) {
+    policy = null;
+    if (domWindow.trustedTypes) {
+      try {
+        policy = domWindow.trustedTypes.createPolicy(name, {
+          createHTML: (input: string) => input,
+          // DOMPurify requires both hooks on a policy it is given.
+          createScriptURL: (input: string) => input
+        });
+      } catch {
+        // The page's trusted-types directive does not allow the name; fall
+        // back to strings, which work wherever Trusted Types are not enforced.
+      }
+    }
+    byName.set(name, policy);
+  }
+  return policy;
+}
 
-  return { sanitize, sanitizeWithPolicy };
+// Any private policy already created on the window, whatever its name: they
+// all pass strings through unchanged, so parsing can use whichever exists.
+function existingTrustedTypesPolicy(domWindow: WindowLike): PrivateTrustedTypesPolicy | null {
+  for (const policy of trustedTypesPolicies.get(domWindow)?.values() ?? []) {
+    if (policy) return policy;
+  }
+  return null;
 }
 
 /**
@@ -473,20 +3150,62 @@ function ensureSpecCompliantNodeName(domWindow: WindowLike): void {
   });
 }
 
-// The parsed children of a <template> do not live among its childNodes; the
-// parser moves them into a separate inert DocumentFragment exposed as
-// `.content`. A plain `querySelectorAll("*")` / childNodes walk therefore never
-// descends into template content, so without this every allowlist check (tag
-// counts, per-tag attribute scoping, URL and CSS pre-filtering, the hard
-// data:image/svg+xml exclusion) would silently skip anything inside a
-// <template> and lean entirely on DOMPurify — which is unsound, because our
-// data: URL widening tells DOMPurify to trust a pre-filter that never ran there.
-// Collect in pre-order, descending into template content in place.
-function collectElements(element: Element, out: Element[]): void {
-  out.push(element);
-  for (const child of Array.from(element.children)) {
-    collectElements(child, out);
+// Collects `root` and every element below it in pre-order, descending into
+// template content in place. The parsed children of a <template> do not live
+// among its childNodes; the parser moves them into a separate inert
+// DocumentFragment exposed as `.content`. A plain `querySelectorAll("*")` /
+// childNodes walk therefore never descends into template content, so without
+// this every allowlist check (tag counts, per-tag attribute scoping, URL and
+// CSS pre-filtering, the hard data:image/svg+xml exclusion) would silently
+// skip anything inside a <template> and lean entirely on DOMPurify — which is
+// unsound, because our data: URL widening tells DOMPurify to trust a
+// pre-filter that never ran there. Uses an explicit stack rather than
+// recursion so that depth is bounded by memory, not by the call stack: tens
+// of thousands of nested elements are cheap for an attacker to send.
+function collectElements(root: Element, out: Element[]): void {
+  const stack: Element[] = [root];
+  while (stack.length > 0) {
+    const element = stack.pop()!;
+    out.push(element);
+    const children = childElementsOf(element);
+    for (let i = children.length - 1; i >= 0; i -= 1) {
+      stack.push(children[i]);
+    }
+  }
+}
+
+// Checks maxElements and maxDepth before anything else walks the tree. Uses an
+// explicit stack, so measuring a hostile document cannot itself exhaust the
+// call stack. `<html>` is depth -1, so children of `<body>` are depth 1;
+// `<head>` and `<body>` themselves are not counted.
+function enforceTreeLimits(root: Element, config: SanitizerConfig, report: Reporter): void {
+  const { maxElements, maxDepth = Infinity, excessDepth = "throw" } = config;
+  if (maxElements === undefined && maxDepth === Infinity) return;
+  let count = 0;
+  const stack: Array<[Element, number]> = [[root, -1]];
+  while (stack.length > 0) {
+    const [element, depth] = stack.pop()!;
+    for (const child of childElementsOf(element)) {
+      if (depth >= 0) count += 1;
+      if (maxElements !== undefined && count > maxElements) {
+        throw new ResourceLimitError("maxElements", maxElements);
+      }
+      if (depth + 1 > maxDepth) {
+        if (excessDepth === "throw") throw new ResourceLimitError("maxDepth", maxDepth);
+        report?.({ type: "element-flattened", reason: "max-depth", tag: child.tagName.toLowerCase() });
+        const text = child.ownerDocument.createTextNode(textOf(child));
+        detachDescendants(child);
+        child.replaceWith(text);
+        continue;
+      }
+      stack.push([child, depth + 1]);
+    }
   }
+}
+
+// Child elements followed by a <template>'s content elements.
+function childElementsOf(element: Element): Element[] {
+  const children = Array.from(element.children);
   // Only <template> has a `.content` fragment. Reading `.content` on any other
   // element is unsafe: HTMLFormElement exposes its controls as named
   // properties, so `form.content` performs a named-item lookup rather than
@@ -496,24 +3215,72 @@ function collectElements(element: Element, out: Element[]): void {
   // even under an empty rule list. A form control named "content" would also
   // shadow the property and misdirect traversal. `tagName` is a genuine
   // prototype accessor and cannot be clobbered, so gate on it.
-  if (element.tagName.toLowerCase() !== "template") return;
-  const content = (element as Partial<HTMLTemplateElement>).content;
-  if (content && typeof (content as DocumentFragment).children !== "undefined") {
-    for (const child of Array.from((content as DocumentFragment).children)) {
-      collectElements(child, out);
+  if (element.tagName.toLowerCase() === "template") {
+    const content = (element as Partial<HTMLTemplateElement>).content;
+    if (content && typeof (content as DocumentFragment).children !== "undefined") {
+      children.push(...Array.from((content as DocumentFragment).children));
+    }
+  }
+  return children;
+}
+
+// `textContent` without recursion, for subtrees too deep to recurse into.
+function textOf(element: Element): string {
+  let text = "";
+  const stack: Node[] = [element];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node.nodeType === 3) {
+      text += (node as Text).data;
+      continue;
     }
+    const children = node.childNodes;
+    for (let i = children.length - 1; i >= 0; i -= 1) {
+      stack.push(children[i]);
+    }
+  }
+  return text;
+}
+
+// Empties `element` deepest-first. Some DOM implementations (happy-dom among
+// them) update a moved or removed subtree recursively, so detaching a deep
+// subtree in one step can itself overflow the stack; removing nodes in reverse
+// document order means each removal only ever detaches a single node.
+function detachDescendants(element: Element): void {
+  const nodes: Node[] = [];
+  const stack: Node[] = Array.from(element.childNodes);
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    nodes.push(node);
+    stack.push(...Array.from(node.childNodes));
   }
+  for (let i = nodes.length - 1; i >= 0; i -= 1) {
+    (nodes[i] as ChildNode).remove();
+  }
+}
+
+// Whether `error` is the engine running out of call stack: V8 and
+// JavaScriptCore throw RangeError, SpiderMonkey InternalError.
+function isStackOverflow(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  return (
+    (error instanceof RangeError && /call stack/i.test(error.message)) ||
+    (error.name === "InternalError" && /recursion/i.test(error.message))
+  );
 }
 
 // Whether an element is still attached to something that will appear in the
 // output. Elements are collected up front, then removed/unwrapped as the pass
-// proceeds, so we must re-check liveness before processing each one. `isConnected`
-// cannot be used: it is false for everything inside a template's content
-// fragment (a fragment is never connected to a document). Instead walk to the
-// root: reaching `root` means it is in the live tree; reaching a parentless
-// DocumentFragment means it is still inside live template content; reaching a
-// parentless element means it was detached this pass.
+// proceeds, so we must re-check liveness before processing each one. A
+// connected element is live, and checking that first keeps the common case
+// O(1) rather than O(depth). But `isConnected` is false for everything inside
+// a template's content fragment (a fragment is never connected to a document),
+// so otherwise walk to the root: reaching `root` means it is in the live tree;
+// reaching a parentless DocumentFragment means it is still inside live
+// template content; reaching a parentless element means it was detached this
+// pass.
 function isElementLive(element: Element, root: Element): boolean {
+  if (element.isConnected) return true;
   let node: Node | null = element;
   while (node) {
     if (node === root) return true;
@@ -526,6 +3293,91 @@ function isElementLive(element: Element, root: Element): boolean {
   return false;
 }
 
+// The tag an element is nested in for `parent>child` rules. Template content
+// lives in a parentless DocumentFragment, whose logical parent is the
+// <template> it came from.
+function parentTagOf(element: Element): string {
+  const parent = element.parentNode;
+  if (!parent) return "";
+  if (parent.nodeType === 11) return "template"; // DOCUMENT_FRAGMENT_NODE
+  return (parent as Element).tagName?.toLowerCase() ?? "";
+}
+
+// The HTML parser puts a `<tr>` written directly in a `<table>` into an
+// implied `<tbody>`, and a `<col>` into an implied `<colgroup>`, so a
+// `table>tr` rule could never match as written. Such a wrapper is
+// transparent to nesting rules: the element also matches its grandparent.
+const IMPLIED_TABLE_WRAPPERS = new Map([
+  ["tr", "tbody"],
+  ["col", "colgroup"]
+]);
+
+function allowedThroughImpliedWrapper(element: Element, tag: string, allowedParents: Set<string>): boolean {
+  const parent = element.parentElement;
+  if (!parent || parent.tagName.toLowerCase() !== IMPLIED_TABLE_WRAPPERS.get(tag)) return false;
+  return allowedParents.has(parentTagOf(parent));
+}
+
+// Checks every `tag{n}@scope` limit for the element against its nearest
+// ancestor of each scope tag, and records the element against all of them
+// only if none is exhausted. Elements with no such ancestor are unaffected.
+function consumeScopedCounts(
+  element: Element,
+  tag: string,
+  scopes: Map<string, number>,
+  usedScopedCounts: Map<string, Map<Element, number>>
+): boolean {
+  const containers: Array<[string, Element]> = [];
+  for (const [scope, limit] of scopes) {
+    const container = nearestAncestor(element, scope);
+    if (!container) continue;
+    if ((usedScopedCounts.get(`${tag}@${scope}`)?.get(container) ?? 0) >= limit) return false;
+    containers.push([scope, container]);
+  }
+  for (const [scope, container] of containers) {
+    const key = `${tag}@${scope}`;
+    if (!usedScopedCounts.has(key)) {
+      usedScopedCounts.set(key, new Map());
+    }
+    const used = usedScopedCounts.get(key)!;
+    used.set(container, (used.get(container) ?? 0) + 1);
+  }
+  return true;
+}
+
+function nearestAncestor(element: Element, tag: string): Element | null {
+  let node = element.parentNode;
+  while (node && node.nodeType === 1) {
+    if ((node as Element).tagName.toLowerCase() === tag) return node as Element;
+    node = node.parentNode;
+  }
+  return null;
+}
+
+// Moves `element` into a wrapper of `wrapperTag`, reusing the wrapper created
+// for the preceding misplaced sibling when only whitespace separates them.
+// Returns true when a new wrapper element was created.
+function wrapInto(element: Element, wrapperTag: string, wrappers: Set<Element>): boolean {
+  let previous = element.previousSibling;
+  const between: Node[] = [];
+  while (previous && previous.nodeType === 3 && !(previous.textContent ?? "").trim()) {
+    between.unshift(previous);
+    previous = previous.previousSibling;
+  }
+  if (previous && wrappers.has(previous as Element) && (previous as Element).tagName.toLowerCase() === wrapperTag) {
+    for (const node of between) {
+      previous.appendChild(node);
+    }
+    previous.appendChild(element);
+    return false;
+  }
+  const wrapper = element.ownerDocument.createElement(wrapperTag);
+  element.parentNode!.insertBefore(wrapper, element);
+  wrapper.appendChild(element);
+  wrappers.add(wrapper);
+  return true;
+}
+
 function unwrapElement(element: Element): void {
   const parent = element.parentNode;
   if (!parent) {
@@ -538,45 +3390,289 @@ function unwrapElement(element: Element): void {
   parent.removeChild(element);
 }
 
-function filterAttributes(
-  element: Element,
+// Text inside these is not rendered, so it does not count toward a
+// character or word budget.
+const INVISIBLE_TEXT_TAGS = new Set(["script", "style", "template", "noscript"]);
+
+// Cuts `body` down to `options.limit` and adds the ellipsis at the cut, which
+// is reported as one action. Works on the DOM rather than the serialized
+// string, so the cut can never land inside a tag, attribute, or character
+// reference, and every element open at the cut is closed by serialization.
+function truncateBody(body: Element | DocumentFragment, options: TruncateOptions, report: Reporter): void {
+  const { by = "characters", limit, ellipsis = "…" } = options;
+  let used = 0;
+  let inWhitespace = true;
+  // Just after the last non-whitespace character within the limit, so the
+  // ellipsis follows the text directly.
+  let lastKept: { text: Text; offset: number } | null = null;
+
+  let node: Node | null = body.firstChild;
+  while (node) {
+    if (node.nodeType === 1) {
+      const element = node as Element;
+      if (by === "elements") {
+        used += 1;
+        if (used > limit) {
+          const marker = body.ownerDocument.createTextNode(ellipsis);
+          element.before(marker);
+          removeFollowing(marker, body);
+          report?.({ type: "content-truncated", reason: "truncate", tag: "body" });
+          return;
+        }
+      } else if (INVISIBLE_TEXT_TAGS.has(element.tagName.toLowerCase())) {
+        node = nextOutside(element, body);
+        continue;
+      }
+      node = element.firstChild ?? nextOutside(element, body);
+      continue;
+    }
+
+    if (node.nodeType === 3 && by !== "elements") {
+      const text = node as Text;
+      let offset = 0;
+      // Iterating the string yields whole code points, so a surrogate pair
+      // is counted and kept or cut as one character.
+      for (const char of text.data) {
+        const isWhitespace = /\s/.test(char);
+        if (!isWhitespace) {
+          // A word costs one at its first character. A character costs one,
+          // plus one for the whitespace run before it, if any.
+          const cost = by === "words" ? (inWhitespace ? 1 : 0) : inWhitespace && used > 0 ? 2 : 1;
+          if (used + cost > limit) {
+            cutAfter(lastKept ?? { text, offset }, ellipsis, body);
+            report?.({ type: "content-truncated", reason: "truncate", tag: "body" });
+            return;
+          }
+          used += cost;
+        }
+        inWhitespace = isWhitespace;
+        offset += char.length;
+        if (!isWhitespace) lastKept = { text, offset };
+      }
+    }
+    node = nextOutside(node, body);
+  }
+}
+
+function cutAfter(position: { text: Text; offset: number }, ellipsis: string, body: Element | DocumentFragment): void {
+  const { text, offset } = position;
+  text.data = text.data.slice(0, offset);
+  const marker = body.ownerDocument.createTextNode(ellipsis);
+  text.after(marker);
+  removeFollowing(marker, body);
+}
+
+// The next node in document order that is not inside `node`, or null at the
+// end of `root`.
+function nextOutside(node: Node, root: Node): Node | null {
+  for (let current: Node | null = node; current && current !== root; current = current.parentNode) {
+    if (current.nextSibling) return current.nextSibling;
+  }
+  return null;
+}
+
+// Removes everything after `node` in document order, up to the end of `root`.
+function removeFollowing(node: Node, root: Node): void {
+  for (let current: Node | null = node; current && current !== root; current = current.parentNode) {
+    while (current.nextSibling) {
+      current.nextSibling.remove();
+    }
+  }
+}
+
+// Replaces the element's start and end tags with text nodes that spell them
+// out, keeping its children in between. Attribute values go in as written:
+// the text node escapes them on serialization, so escaping them here would
+// show entities such as `&quot;` literally. Text reparses as text, so the
+// result is stable across passes.
+function escapeElement(element: Element, tag: string): void {
+  const doc = element.ownerDocument;
+  const attrs = Array.from(element.attributes)
+    .map((attr) => ` ${attr.name}="${attr.value}"`)
+    .join("");
+  element.before(doc.createTextNode(`<${tag}${attrs}>`));
+  const content = tag === "template" ? (element as HTMLTemplateElement).content : element;
+  while (content.firstChild) {
+    element.before(content.firstChild);
+  }
+  if (!VOID_ELEMENTS.has(tag)) {
+    element.before(doc.createTextNode(`</${tag}>`));
+  }
+  element.remove();
+}
+
+// Replaces `element` with a `tag` element in the same namespace, carrying over
+// its attributes (filtered later against the new tag) and children.
+function renameElement(element: Element, tag: string): Element {
+  const renamed = element.ownerDocument.createElementNS(element.namespaceURI, tag);
+  for (const attr of Array.from(element.attributes)) {
+    try {
+      renamed.setAttributeNS(attr.namespaceURI, attr.name, attr.value);
+    } catch {
+      // Names the parser accepts but setAttribute rejects are dropped.
+    }
+  }
+  while (element.firstChild) {
+    renamed.appendChild(element.firstChild);
+  }
+  element.replaceWith(renamed);
+  return renamed;
+}
+
+// Every attribute rule keyed by tag also has a `*` entry for rules written as
+// `*|attr...`, which apply to all tags. These merge the two for one element.
+function attrRulesFor<T>(byTag: Map<string, Map<string, T[]>>, tag: string, attr: string): T[] {
+  return [...(byTag.get(tag)?.get(attr) ?? []), ...(byTag.get("*")?.get(attr) ?? [])];
+}
+
+function attrSetRulesFor(
+  byTag: Map<string, Map<string, Set<string>>>,
   tag: string,
-  attrAllowlist: Map<string, Set<string>>,
-  styleAllowlist: Map<string, Set<string>>,
-  allowCommonAttributes: boolean,
-  allowJavaScript: boolean,
-  allowDataImageUrls: boolean
-): void {
-  const allowedAttrs = new Set<string>(attrAllowlist.get(tag) ?? []);
+  attr: string
+): Set<string> | undefined {
+  const forTag = byTag.get(tag)?.get(attr);
+  const forAll = byTag.get("*")?.get(attr);
+  if (!forTag || !forAll) return forTag ?? forAll;
+  return new Set([...forTag, ...forAll]);
+}
+
+function matchesAttrPrefix(name: string, prefixes: Iterable<string>): boolean {
+  for (const prefix of prefixes) {
+    if (name.startsWith(prefix)) return true;
+  }
+  return false;
+}
 
-  if (allowCommonAttributes) {
-    for (const attr of COMMON_GLOBAL_ATTRS) {
-      allowedAttrs.add(attr);
+// The per-tag attribute policy as a single check, so the allowlist pass and
+// the DOMPurify hook enforce exactly the same mapping: which names are allowed
+// on `tag` (exact, `*|attr`, prefix families, common defaults), which values
+// (constraints), and which URLs (`@scheme`/`@host`). Returns why the attribute
+// is not allowed, or null. The dangerous-URL safety net is applied on top.
+function attributeViolation(
+  policy: PolicyInternals,
+  tag: string,
+  name: string,
+  value: string
+): SanitizeReason | null {
+  if (!(policy.config.dangerouslyAllowJavaScript ?? false) && name.startsWith("on")) return "event-handler";
+  // A value made only of what forced-attribute rules would write is the
+  // policy author's own and is allowed as is, so forced attributes survive
+  // DOMPurify and a second pass.
+  const forced = attrRulesFor(policy.forcedAttributes, tag, name);
+  if (forced.length > 0 && isForcedValue(forced, value)) return null;
+
+  const { attrAllowlist, attrPrefixAllowlist, attrValueAllowlist } = policy;
+  const nameAllowed =
+    attrAllowlist.get(tag)?.has(name) ||
+    attrAllowlist.get("*")?.has(name) ||
+    matchesAttrPrefix(name, [...(attrPrefixAllowlist.get(tag) ?? []), ...(attrPrefixAllowlist.get("*") ?? [])]);
+  if (!nameAllowed) {
+    const constraints = attrRulesFor(attrValueAllowlist, tag, name);
+    if (constraints.length > 0) {
+      // An explicit value constraint narrows the common default for that
+      // attribute: `a|target=_blank` must not be widened back to any value.
+      if (!constraints.some((constraint) => matchesAttrValueConstraint(constraint, value))) {
+        return "value-constraint";
+      }
+    } else {
+      const common =
+        (policy.config.allowCommonAttributes ?? false) &&
+        (COMMON_GLOBAL_ATTRS.includes(name) || (COMMON_ATTRS.get(tag)?.includes(name) ?? false));
+      if (!common) return "not-allowlisted";
     }
-    const common = COMMON_ATTRS.get(tag);
-    if (common) {
-      for (const attr of common) {
-        allowedAttrs.add(attr);
+  }
+
+  // Scheme and host rules are part of the policy, not a JavaScript safety
+  // net, so they apply regardless of dangerouslyAllowJavaScript.
+  const allowedSchemes = attrSetRulesFor(policy.urlSchemeAllowlist, tag, name);
+  if (allowedSchemes && !hasAllowedSchemes(name, value, allowedSchemes)) return "url-scheme";
+  const allowedHosts = attrSetRulesFor(policy.urlHostAllowlist, tag, name);
+  if (allowedHosts && !hasAllowedHosts(name, value, allowedHosts, policy.config.baseUrl)) return "url-host";
+  return null;
+}
+
+function isForcedValue(forced: ForcedAttribute[], value: string): boolean {
+  const tokens = new Set(forced.flatMap((rule) => splitTokens(rule.value.toLowerCase())));
+  return splitTokens(value.toLowerCase()).every((token) => tokens.has(token));
+}
+
+function splitTokens(value: string): string[] {
+  return value.split(/\s+/).filter(Boolean);
+}
+
+// Runs after filterAttributes, so `ifAttribute` sees only attributes that
+// survived the policy.
+function applyForcedAttributes(element: Element, tag: string, policy: PolicyInternals, report: Reporter): void {
+  for (const byAttr of [policy.forcedAttributes.get(tag), policy.forcedAttributes.get("*")]) {
+    for (const [name, rules] of byAttr ?? []) {
+      for (const rule of rules) {
+        if (rule.ifAttribute && !element.hasAttribute(rule.ifAttribute)) continue;
+        const current = element.getAttribute(name);
+        let next = rule.value;
+        if (rule.merge && current !== null) {
+          const tokens = splitTokens(current);
+          const present = new Set(tokens.map((token) => token.toLowerCase()));
+          next = [...tokens, ...splitTokens(rule.value).filter((token) => !present.has(token.toLowerCase()))].join(" ");
+        }
+        if (next === current) continue;
+        report?.({
+          type: "attribute-set",
+          reason: "forced-attribute",
+          tag,
+          attribute: name,
+          ...(current === null ? {} : { value: snippet(current) })
+        });
+        element.setAttribute(name, next);
       }
     }
   }
+}
+
+function snippet(value: string): string {
+  return value.length > 100 ? `${value.slice(0, 100)}…` : value;
+}
+
+function filterAttributes(
+  element: Element,
+  tag: string,
+  policy: PolicyInternals,
+  report: Reporter,
+  hooks: SanitizerHooks | undefined
+): void {
+  const allowJavaScript = policy.config.dangerouslyAllowJavaScript ?? false;
+  const allowDataImageUrls = policy.config.allowDataImageUrls ?? false;
 
   for (const attr of Array.from(element.attributes)) {
     const name = attr.name.toLowerCase();
-    if (!allowJavaScript && name.startsWith("on")) {
+    let value = attr.value;
+    const removeAttribute = (reason: SanitizeReason): void => {
+      report?.({ type: "attribute-removed", reason, tag, attribute: name, value: snippet(value) });
       element.removeAttribute(attr.name);
-      continue;
+    };
+
+    if (hooks) {
+      const rewritten = runAttributeHooks(hooks, element, tag, name, value);
+      if (rewritten === null) {
+        removeAttribute("hook");
+        continue;
+      }
+      if (rewritten !== value) {
+        report?.({ type: "attribute-rewritten", reason: "hook", tag, attribute: name, value: snippet(value) });
+        element.setAttribute(attr.name, rewritten);
+        value = rewritten;
+      }
     }
 
-    if (!allowedAttrs.has(name)) {
-      element.removeAttribute(attr.name);
+    const violation = attributeViolation(policy, tag, name, value);
+    if (violation) {
+      removeAttribute(violation);
       continue;
     }
 
     if (name === "style") {
-      const filtered = filterInlineStyle(tag, attr.value, styleAllowlist);
+      const filtered = filterInlineStyle(tag, value, policy.styleAllowlist, report, hooks?.onStyleDeclaration);
       if (filtered.length === 0) {
-        element.removeAttribute(attr.name);
+        removeAttribute("empty-after-filtering");
       } else {
         element.setAttribute(attr.name, filtered);
       }
@@ -584,16 +3680,54 @@ function filterAttributes(
     }
 
     if (!allowJavaScript && URL_ATTRS.has(name)) {
-      const value = attr.value;
       const allowSafeDataImage = allowDataImageUrls && tag === "img" && (name === "src" || name === "srcset");
       if (isDangerousUrlValue(name, value, allowSafeDataImage)) {
-        element.removeAttribute(attr.name);
+        removeAttribute("dangerous-url");
+      }
+    }
+  }
+}
+
+// Applies `onAttribute`, then `onUrl` to each URL the (possibly rewritten)
+// value carries. Returns the value to check against the policy, or null if a
+// hook dropped the attribute.
+function runAttributeHooks(
+  hooks: SanitizerHooks,
+  element: Element,
+  tag: string,
+  name: string,
+  value: string
+): string | null {
+  let current = value;
+  if (hooks.onAttribute) {
+    const result = hooks.onAttribute({ element, tag, name, value: current });
+    if (result === false) return null;
+    if (typeof result === "string") current = result;
+  }
+  if (hooks.onUrl && URL_ATTRS.has(name)) {
+    const { onUrl } = hooks;
+    const entries = name === "srcset" ? parseSrcsetEntries(current) : [{ url: current, start: 0 }];
+    // Splice from the end so earlier offsets stay valid.
+    for (const { url, start } of entries.reverse()) {
+      const result = onUrl({ element, tag, attribute: name, url });
+      if (result === false) return null;
+      if (typeof result === "string") {
+        current = current.slice(0, start) + result + current.slice(start + url.length);
       }
     }
   }
+  return current;
 }
 
-function filterInlineStyle(tag: string, value: string, styleAllowlist: Map<string, Set<string>>): string {
+type DeclarationHook = SanitizerHooks["onStyleDeclaration"];
+
+function filterInlineStyle(
+  tag: string,
+  value: string,
+  styleAllowlist: Map<string, Set<string>>,
+  report: Reporter,
+  onStyleDeclaration: DeclarationHook
+): string {
   const allowedProps = new Set<string>();
   const wildcard = styleAllowlist.get("*");
   if (wildcard) {
@@ -627,18 +3761,36 @@ function filterInlineStyle(tag: string, value: string, styleAllowlist: Map<strin
   for (const node of rule.nodes ?? []) {
     if (node.type !== "decl") continue;
     const prop = node.prop.trim().toLowerCase();
-    if (!allowedProps.has(prop)) continue;
-    if (DANGEROUS_CSS_PROPS.has(prop)) continue;
-    if (!isSafeCssValue(node.value)) continue;
-    decls.push(`${prop}:${node.value.trim()}`);
+    const declValue = runDeclarationHook(onStyleDeclaration, report, { tag, property: prop, value: node.value });
+    const violation = declValue === null ? "hook" : declarationViolation(prop, declValue, allowedProps);
+    if (declValue === null || violation) {
+      report?.({
+        type: "css-declaration-removed",
+        reason: violation ?? "hook",
+        tag,
+        attribute: "style",
+        property: prop,
+        value: snippet(declValue ?? node.value)
+      });
+      continue;
+    }
+    decls.push(`${prop}:${declValue.trim()}`);
   }
 
   return decls.join(";");
 }
 
-function isDangerousUrl(value: string, allowSafeDataImage = false): boolean {
+// The form a browser effectively sees when resolving a URL: numeric
+// character references decoded, whitespace and control characters removed,
+// lowercased. Scheme checks run against this so `java\nscript:` and
+// `jav&#x61;script:` cannot hide their scheme.
+function compactUrl(value: string): string {
   const decoded = decodeNumericCharacterReferences(value);
-  const compact = decoded.replace(/[\u0000-\u001F\u007F\s]+/g, "").toLowerCase();
+  return decoded.replace(/[\u0000-\u001F\u007F\s]+/g, "").toLowerCase();
+}
+
+function isDangerousUrl(value: string, allowSafeDataImage = false): boolean {
+  const compact = compactUrl(value);
   // vbscript: is IE-only and long dead, but blocking it here -- rather than
   // leaning on DOMPurify's default scheme regex to reject it incidentally --
   // is free, and the fuzz target found a malformed multi-candidate srcset
@@ -663,6 +3815,39 @@ function isSafeDataImageUrl(compact: string): boolean {
   return SAFE_DATA_IMAGE_TYPES.has(mimeType);
 }
 
+function urlCandidates(attrName: string, value: string): string[] {
+  return attrName === "srcset" ? parseSrcsetUrls(value) : [value];
+}
+
+// Relative URLs carry no scheme of their own and always pass; a srcset passes
+// only if every candidate does.
+function hasAllowedSchemes(attrName: string, value: string, allowedSchemes: Set<string>): boolean {
+  return urlCandidates(attrName, value).every((url) => {
+    const scheme = /^([a-z][a-z0-9+.-]*):/.exec(compactUrl(url))?.[1];
+    return scheme === undefined || allowedSchemes.has(scheme);
+  });
+}
+
+// Unlike schemes, a relative URL does not pass by default: it is resolved
+// against `baseUrl` and checked like any other, and without a base it has no
+// host and fails. URLs without a host at all (`mailto:`, `data:`) also fail.
+function hasAllowedHosts(
+  attrName: string,
+  value: string,
+  allowedHosts: Set<string>,
+  baseUrl: string | undefined
+): boolean {
+  return urlCandidates(attrName, value).every((url) => {
+    const hostname = normalizeHostname(url.trim(), baseUrl);
+    if (!hostname) return false;
+    if (allowedHosts.has(hostname)) return true;
+    for (let dot = hostname.indexOf("."); dot !== -1; dot = hostname.indexOf(".", dot + 1)) {
+      if (allowedHosts.has(`*${hostname.slice(dot)}`)) return true;
+    }
+    return false;
+  });
+}
+
 function isDangerousUrlValue(attrName: string, value: string, allowSafeDataImage = false): boolean {
   if (attrName === "srcset") {
     return isDangerousSrcset(value, allowSafeDataImage);
@@ -690,7 +3875,13 @@ const SRCSET_WHITESPACE = new Set([" ", "\t", "\n", "\r", "\f"]);
 // non-whitespace characters, and (when present) its descriptor extends to
 // the next comma that isn't nested inside parentheses.
 function parseSrcsetUrls(value: string): string[] {
-  const urls: string[] = [];
+  return parseSrcsetEntries(value).map((entry) => entry.url);
+}
+
+// Each candidate URL with its offset in `value`, so a URL can be replaced
+// without re-serializing the descriptors around it.
+function parseSrcsetEntries(value: string): { url: string; start: number }[] {
+  const entries: { url: string; start: number }[] = [];
   const len = value.length;
   let i = 0;
 
@@ -703,7 +3894,7 @@ function parseSrcsetUrls(value: string): string[] {
     const url = value.slice(urlStart, i);
 
     const strippedUrl = url.replace(/,+$/, "");
-    urls.push(strippedUrl);
+    entries.push({ url: strippedUrl, start: urlStart });
     if (strippedUrl !== url) {
       // Trailing comma(s) on the URL token itself are the entry separator;
       // there is no descriptor to skip past.
@@ -726,7 +3917,7 @@ function parseSrcsetUrls(value: string): string[] {
     }
   }
 
-  return urls;
+  return entries;
 }
 
 function decodeNumericCharacterReferences(value: string): string {
@@ -742,17 +3933,57 @@ function decodeNumericCharacterReferences(value: string): string {
   });
 }
 
-function filterStyleElement(element: Element, styleAllowlist: Map<string, Set<string>>): void {
+function filterStyleElement(
+  element: Element,
+  styleAllowlist: Map<string, Set<string>>,
+  report: Reporter,
+  onStyleDeclaration: DeclarationHook
+): void {
   const css = element.textContent ?? "";
-  const filtered = filterCss(css, styleAllowlist);
+  const filtered = filterCss(css, styleAllowlist, report, onStyleDeclaration);
   if (filtered.trim().length === 0) {
+    report?.({ type: "element-removed", reason: "empty-after-filtering", tag: "style" });
     element.remove();
     return;
   }
   element.textContent = filtered;
 }
 
-function filterCss(cssText: string, styleAllowlist: Map<string, Set<string>>): string {
+function declarationViolation(prop: string, value: string, allowedProps: Set<string>): SanitizeReason | null {
+  if (!allowedProps.has(prop)) return "not-allowlisted";
+  if (DANGEROUS_CSS_PROPS.has(prop)) return "dangerous-css-property";
+  if (!isSafeCssValue(value)) return "dangerous-css-function";
+  return null;
+}
+
+// Returns the declaration value to check against the policy, or null if the
+// hook dropped it.
+function runDeclarationHook(
+  hook: DeclarationHook,
+  report: Reporter,
+  declaration: { tag: string; selector?: string; property: string; value: string }
+): string | null {
+  if (!hook) return declaration.value;
+  const result = hook(declaration);
+  if (result === false) return null;
+  if (typeof result !== "string" || result === declaration.value) return declaration.value;
+  report?.({
+    type: "css-declaration-rewritten",
+    reason: "hook",
+    tag: declaration.tag,
+    ...(declaration.selector === undefined ? { attribute: "style" } : { selector: declaration.selector }),
+    property: declaration.property,
+    value: snippet(declaration.value)
+  });
+  return result;
+}
+
+function filterCss(
+  cssText: string,
+  styleAllowlist: Map<string, Set<string>>,
+  report: Reporter,
+  onStyleDeclaration: DeclarationHook
+): string {
   let root: postcss.Root;
   try {
     root = postcss.parse(cssText);
@@ -761,6 +3992,7 @@ function filterCss(cssText: string, styleAllowlist: Map<string, Set<string>>): s
   }
 
   root.walkAtRules((atRule) => {
+    report?.({ type: "css-rule-removed", reason: "css-at-rule", tag: "style", selector: `@${atRule.name}` });
     atRule.remove();
   });
 
@@ -771,9 +4003,14 @@ function filterCss(cssText: string, styleAllowlist: Map<string, Set<string>>): s
 
   for (const rule of rules) {
     const selectors = rule.selectors ?? [rule.selector];
-    const allowedSelectors = selectors
-      .map((selector) => selector.trim())
-      .filter((selector) => styleAllowlist.has(selector));
+    const allowedSelectors: string[] = [];
+    for (const selector of selectors.map((selector) => selector.trim())) {
+      if (styleAllowlist.has(selector)) {
+        allowedSelectors.push(selector);
+      } else {
+        report?.({ type: "css-rule-removed", reason: "not-allowlisted", tag: "style", selector });
+      }
+    }
 
     if (allowedSelectors.length === 0) {
       rule.remove();
@@ -788,10 +4025,21 @@ function filterCss(cssText: string, styleAllowlist: Map<string, Set<string>>): s
       for (const node of rule.nodes ?? []) {
         if (node.type !== "decl") continue;
         const prop = node.prop.trim().toLowerCase();
-        if (!allowedProps.has(prop)) continue;
-        if (DANGEROUS_CSS_PROPS.has(prop)) continue;
-        if (!isSafeCssValue(node.value)) continue;
-        newRule.append(node.clone());
+        const declaration = { tag: "style", selector, property: prop, value: node.value };
+        const declValue = runDeclarationHook(onStyleDeclaration, report, declaration);
+        const violation = declValue === null ? "hook" : declarationViolation(prop, declValue, allowedProps);
+        if (declValue === null || violation) {
+          report?.({
+            type: "css-declaration-removed",
+            reason: violation ?? "hook",
+            tag: "style",
+            selector,
+            property: prop,
+            value: snippet(declValue ?? node.value)
+          });
+          continue;
+        }
+        newRule.append(node.clone({ value: declValue }));
       }
 
       if (newRule.nodes && newRule.nodes.length > 0) {
@@ -1,9 +1,50 @@
 export {
   ConvergenceError,
+  PolicyConflictError,
+  PolicyFormatError,
+  PolicyViolationError,
+  ResourceLimitError,
   RuleSyntaxError,
+  SanitizeTimeoutError,
+  assertConforms,
+  compilePolicyDocument,
   compileRules,
   createSanitizer,
+  extendPolicy,
+  intersectPolicies,
+  loadPolicy,
+  mergePolicies,
+  registerDefaultTrustedTypesPolicy,
   sanitize,
-  sanitizeWithPolicy
+  sanitizeInto,
+  sanitizeToFragment,
+  sanitizeToTrustedHTML,
+  sanitizeWithPolicy,
+  sanitizeWithReport,
+  serializePolicy,
+  subtractRules,
+  toSanitizerApiConfig
+} from "./sanitize.node.js";
+export type {
+  CompiledPolicy,
+  ConfigConflictResolution,
+  ElementDisposition,
+  ElementHookResult,
+  PolicyCompositionOptions,
+  PolicyDocument,
+  PolicyDocumentAttribute,
+  PolicyDocumentConfig,
+  PolicyDocumentTag,
+  SanitizeAction,
+  SanitizeOptions,
+  SanitizeReason,
+  SanitizeReport,
+  SanitizerApiConfig,
+  SanitizerApiGap,
+  SanitizerApiTranslation,
+  Sanitizer,
+  SanitizerConfig,
+  SanitizerHooks,
+  SanitizerWindow,
+  TruncateOptions
 } from "./sanitize.node.js";
-export type { CompiledPolicy, Sanitizer, SanitizerConfig, SanitizerWindow } from "./sanitize.node.js";
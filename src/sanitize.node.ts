@@ -3,8 +3,48 @@ import type { Window } from "happy-dom";
 import { createRequire } from "node:module";
 import { createSanitizerFromEnvironment } from "./core.js";
 
-export { ConvergenceError, RuleSyntaxError, compileRules, createSanitizer } from "./core.js";
-export type { CompiledPolicy, SanitizerConfig, Sanitizer, SanitizerWindow } from "./core.js";
+export {
+  ConvergenceError,
+  PolicyConflictError,
+  PolicyFormatError,
+  PolicyViolationError,
+  ResourceLimitError,
+  RuleSyntaxError,
+  SanitizeTimeoutError,
+  compilePolicyDocument,
+  compileRules,
+  createSanitizer,
+  extendPolicy,
+  intersectPolicies,
+  loadPolicy,
+  mergePolicies,
+  serializePolicy,
+  subtractRules,
+  toSanitizerApiConfig
+} from "./core.js";
+export type {
+  CompiledPolicy,
+  ConfigConflictResolution,
+  ElementDisposition,
+  ElementHookResult,
+  PolicyCompositionOptions,
+  PolicyDocument,
+  PolicyDocumentAttribute,
+  PolicyDocumentConfig,
+  PolicyDocumentTag,
+  SanitizeAction,
+  SanitizeOptions,
+  SanitizeReason,
+  SanitizeReport,
+  SanitizerApiConfig,
+  SanitizerApiGap,
+  SanitizerApiTranslation,
+  SanitizerConfig,
+  SanitizerHooks,
+  Sanitizer,
+  SanitizerWindow,
+  TruncateOptions
+} from "./core.js";
 
 let fallbackWindow: Window | null = null;
 
@@ -73,3 +113,9 @@ const sanitizer = createSanitizerFromEnvironment({
 
 export const sanitize = sanitizer.sanitize;
 export const sanitizeWithPolicy = sanitizer.sanitizeWithPolicy;
+export const sanitizeWithReport = sanitizer.sanitizeWithReport;
+export const assertConforms = sanitizer.assertConforms;
+export const sanitizeToFragment = sanitizer.sanitizeToFragment;
+export const sanitizeInto = sanitizer.sanitizeInto;
+export const sanitizeToTrustedHTML = sanitizer.sanitizeToTrustedHTML;
+export const registerDefaultTrustedTypesPolicy = sanitizer.registerDefaultTrustedTypesPolicy;
@@ -15,11 +15,134 @@ describe("compileRules validation", () => {
         "style|div|background-color",
         "IMG|SRC",
         " p ",
-        "STYLE|.Header|Margin"
+        "STYLE|.Header|Margin",
+        "a|target=_blank,_self",
+        "div|class=/note(-\\w+)?/",
+        "span|title=/a|b/i",
+        "style|a[target=_blank]|color",
+        "a|href@scheme=https,mailto",
+        "img|srcset@scheme=https:",
+        "img|src@host=*.example-cdn.com,example.com",
+        "p*",
+        "li{50}",
+        "ul>li",
+        "TABLE > TR",
+        "img@figure",
+        "a{3}@li",
+        "*|aria-*",
+        "div|data-*",
+        "*|title",
+        "*|href@scheme=https",
+        "a|rel+=noopener noreferrer",
+        "img|loading:=lazy",
+        "iframe|sandbox:=",
+        "*|translate:=no",
+        "b->strong",
+        "FONT -> span"
       ])
     ).not.toThrow();
   });
 
+  test("rejects malformed tag counts", () => {
+    expect(() => compileRules(["li{0}"])).toThrow(/positive integer/);
+    expect(() => compileRules(["li{99999999999999999999}"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["li {5}"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["p *"])).toThrow(RuleSyntaxError);
+  });
+
+  test("rejects malformed nesting rules", () => {
+    expect(() => compileRules([">li"])).toThrow(/parent>child/);
+    expect(() => compileRules(["ul>"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["div>ul>li"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["u l>li"])).toThrow(RuleSyntaxError);
+  });
+
+  test("rejects malformed scoped counts", () => {
+    expect(() => compileRules(["a{3}@"])).toThrow(/tag\{n\}@scope/);
+    expect(() => compileRules(["@li"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["a@li@ul"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["a*@li"])).toThrow(/finite/);
+    expect(() => compileRules(["a{0}@li"])).toThrow(RuleSyntaxError);
+  });
+
+  test("rejects malformed attribute wildcards", () => {
+    expect(() => compileRules(["*|*"])).toThrow(/prefix/);
+    expect(() => compileRules(["div|*"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["div|data-*-x"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["div|da*ta-*"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["div|data-*=1"])).toThrow(/wildcards/);
+  });
+
+  test("rejects malformed attribute value constraints", () => {
+    expect(() => compileRules(["a|=_blank"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["|target=_blank"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["a|tar get=_blank"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["div|class=//"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["div|class=/(/"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["div|class=/note/g"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["div|class=/note-\\w+/m"])).toThrow(RuleSyntaxError);
+  });
+
+  test("rejects malformed URL scheme rules", () => {
+    expect(() => compileRules(["a|title@scheme=https"])).toThrow(/URL attributes/);
+    expect(() => compileRules(["a|href@scheme="])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["a|href@scheme=https,"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["a|href@scheme=1http"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["a|href@schemes=https"])).toThrow(/unknown attribute modifier/);
+  });
+
+  test("rejects malformed URL host rules", () => {
+    expect(() => compileRules(["a|title@host=example.com"])).toThrow(/URL attributes/);
+    expect(() => compileRules(["a|href@host="])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["a|href@host=https://example.com"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["a|href@host=example.com/path"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["a|href@host=ex*ample.com"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["a|href@host=*"])).toThrow(RuleSyntaxError);
+  });
+
+  test("rejects malformed forced attributes", () => {
+    expect(() => compileRules(["a|rel+="])).toThrow(/at least one token/);
+    expect(() => compileRules(["|rel:=x"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["a|:=x"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["a|data-*:=x"])).toThrow(/single attribute/);
+    expect(() => compileRules(["a|href@scheme+=https"])).toThrow(/single attribute/);
+    expect(() => compileRules(["a|onclick:=track()"])).toThrow(/event handler/);
+    expect(() => compileRules(["a|onclick:=track()"], { dangerouslyAllowJavaScript: true })).not.toThrow();
+  });
+
+  test("rejects malformed rename rules", () => {
+    expect(() => compileRules(["b->"])).toThrow(/from->to/);
+    expect(() => compileRules(["->strong"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["b->strong->em"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["b->str ong"])).toThrow(RuleSyntaxError);
+    expect(() => compileRules(["b->strong*"])).toThrow(/plain element names/);
+    expect(() => compileRules(["b->b"])).toThrow(/itself/);
+    expect(() => compileRules(["div->body"])).toThrow(/cannot be renamed/);
+    expect(() => compileRules(["template->div"])).toThrow(/cannot be renamed/);
+    expect(() => compileRules(["b->strong", "b->em"])).toThrow(/already renamed/);
+    expect(() => compileRules(["b->strong", "b->strong"])).not.toThrow();
+    expect(() => compileRules(["b->strong", "strong->em", "em->b"])).toThrow(/cycle/);
+  });
+
+  test("rejects invalid element dispositions", () => {
+    expect(() => compileRules(["p"], { disallowedElements: "drop" as never })).toThrow(TypeError);
+    expect(() => compileRules(["p"], { overCountElements: { b: "replaceWith:" } })).toThrow(/replaceWith/);
+    expect(() => compileRules(["p"], { disallowedElements: { b: "replaceWith:my tag" } })).toThrow(TypeError);
+    expect(() => compileRules(["p"], { disallowedElements: "replaceWith:script" })).toThrow(/cannot be replaced/);
+    expect(() => compileRules(["p"], { disallowedElements: { "": "remove" } })).toThrow(/tag name/);
+    expect(() =>
+      compileRules(["p"], {
+        disallowedElements: { "*": "remove", font: "replaceWith:span" },
+        overCountElements: "unwrap"
+      })
+    ).not.toThrow();
+  });
+
+  test("rejects a baseUrl that is not an absolute URL", () => {
+    expect(() => compileRules(["a"], { baseUrl: "/relative" })).toThrow(TypeError);
+    expect(() => compileRules(["a"], { baseUrl: "https://example.com/app/" })).not.toThrow();
+  });
+
   test("rejects empty and whitespace-only rules", () => {
     expect(() => compileRules([""])).toThrow(RuleSyntaxError);
     expect(() => compileRules(["   "])).toThrow(RuleSyntaxError);
@@ -37,6 +160,11 @@ describe("compileRules validation", () => {
     expect(() => compileRules(["styl|.header|margin"])).toThrow(RuleSyntaxError);
   });
 
+  test("rejects style rules that could be a selector or a value constraint", () => {
+    expect(() => compileRules(["style|a[x=1]"])).toThrow(/ambiguous/);
+    expect(() => compileRules(["style|a[title=x|y]"])).toThrow(/ambiguous/);
+  });
+
   test("rejects rules with more than three segments", () => {
     expect(() => compileRules(["style|.header|margin|0"])).toThrow(RuleSyntaxError);
   });
@@ -0,0 +1,370 @@
+import { describe, expect, test } from "vitest";
+import {
+  PolicyConflictError,
+  RuleSyntaxError,
+  compileRules,
+  extendPolicy,
+  intersectPolicies,
+  loadPolicy,
+  mergePolicies,
+  sanitizeWithPolicy,
+  serializePolicy,
+  subtractRules
+} from "../src/index.js";
+
+const base = ["p*", "a{2}", "a|href", "a|href@scheme=https,mailto", "strong", "b->strong", "ul", "li*", "ul>li"];
+
+describe("extendPolicy", () => {
+  test("builds the policy the concatenated rules would", () => {
+    const more = ["a{1}", "a|title", "img", "img|src", "style|span|color", "span", "span|style"];
+    const extended = extendPolicy(compileRules(base), more);
+    expect(serializePolicy(extended)).toBe(serializePolicy(compileRules([...base, ...more])));
+  });
+
+  test("adds up tag counts", () => {
+    const extended = extendPolicy(compileRules(base), ["a{1}"]);
+    expect(sanitizeWithPolicy("<a>1</a><a>2</a><a>3</a><a>4</a>", extended)).toBe("<a>1</a><a>2</a><a>3</a>");
+  });
+
+  test("applies config over the base policy's", () => {
+    const extended = extendPolicy(compileRules(base, { addRelNoopener: true }), ["a|target"], {
+      misplacedElements: "wrap"
+    });
+    expect(sanitizeWithPolicy("<a target=\"_blank\">x</a><li>y</li>", extended)).toBe(
+      "<a target=\"_blank\" rel=\"noopener noreferrer\">x</a><ul><li>y</li></ul>"
+    );
+  });
+
+  test("rejects a rename that contradicts the base policy", () => {
+    expect(() => extendPolicy(compileRules(base), ["em", "b->em"])).toThrow(RuleSyntaxError);
+  });
+});
+
+describe("mergePolicies", () => {
+  test("allows what either policy allows, with the larger count", () => {
+    const merged = mergePolicies(compileRules(["p", "a{3}", "a|href"]), compileRules(["img", "img|src", "a{1}"]));
+    expect(sanitizeWithPolicy("<p>x</p><img src=\"/a.png\"><a href=\"/\">1</a><a>2</a><a>3</a><a>4</a>", merged)).toBe(
+      "<p>x</p><img src=\"/a.png\"><a href=\"/\">1</a><a>2</a><a>3</a>"
+    );
+  });
+
+  test.each([
+    [
+      "a host rule only one side has",
+      ["a", "a|href"],
+      ["a", "a|href@host=e.com"],
+      "<a href=\"https://other.com/\">x</a>",
+      "<a href=\"https://other.com/\">x</a>"
+    ],
+    [
+      "a scheme rule only one side has, through a * rule",
+      ["a", "a|href"],
+      ["a", "*|href", "*|href@scheme=https"],
+      "<a href=\"mailto:a@b.test\">x</a>",
+      "<a href=\"mailto:a@b.test\">x</a>"
+    ],
+    ["a nesting rule only one side has", ["li*", "ul"], ["li*", "ul", "ul>li"], "<li>x</li>", "<li>x</li>"],
+    [
+      "a scoped count only one side has",
+      ["p", "a*"],
+      ["p", "a*", "a{1}@p"],
+      "<p><a>1</a><a>2</a></p>",
+      "<p><a>1</a><a>2</a></p>"
+    ],
+    [
+      "a value constraint on a common attribute",
+      ["a", "a|target=_blank"],
+      ["a"],
+      "<a target=\"_top\">x</a>",
+      "<a target=\"_top\">x</a>"
+    ]
+  ])("does not let %s narrow the other", (_name, first, second, input, expected) => {
+    const config = { allowCommonAttributes: true };
+    const merged = mergePolicies(compileRules(first, config), compileRules(second, config));
+    expect(sanitizeWithPolicy(input, merged)).toBe(expected);
+  });
+
+  test("keeps a restriction both sides have, admitting what either admits", () => {
+    const merged = mergePolicies(
+      compileRules(["a*", "a|href", "a|href@host=a.test", "ul", "ol", "li*", "ul>li"]),
+      compileRules(["a*", "a|href", "a|href@host=b.test", "ul", "ol", "li*", "ol>li"])
+    );
+    const input = "<a href=\"https://a.test/\">1</a><a href=\"https://b.test/\">2</a><a href=\"https://c.test/\">3</a>";
+    expect(sanitizeWithPolicy(input, merged)).toBe(
+      "<a href=\"https://a.test/\">1</a><a href=\"https://b.test/\">2</a><a>3</a>"
+    );
+    expect(sanitizeWithPolicy("<ul><li>x</li></ul><ol><li>y</li></ol><li>z</li>", merged)).toBe(
+      "<ul><li>x</li></ul><ol><li>y</li></ol>z"
+    );
+  });
+
+  test("treats an unset option like its default", () => {
+    const merged = mergePolicies(compileRules(["p"]), compileRules(["p"], { dangerouslyAllowJavaScript: false }));
+    expect(sanitizeWithPolicy("<p>x</p>", merged)).toBe("<p>x</p>");
+  });
+
+  test("throws on a config option the policies set differently", () => {
+    const a = compileRules(["p"], { dangerouslyAllowJavaScript: true });
+    const b = compileRules(["p"]);
+    const error = (() => {
+      try {
+        mergePolicies(a, b);
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(error).toBeInstanceOf(PolicyConflictError);
+    expect((error as PolicyConflictError).name).toBe("PolicyConflictError");
+    expect((error as PolicyConflictError).field).toBe("config.dangerouslyAllowJavaScript");
+  });
+
+  test.each([
+    ["stricter", 2],
+    ["first", 2],
+    ["second", 5]
+  ] as const)("resolves a conflict with %s", (resolution, depth) => {
+    const merged = mergePolicies(compileRules(["div*"], { maxDepth: 2 }), compileRules(["div*"], { maxDepth: 5 }), {
+      onConfigConflict: resolution
+    });
+    expect(JSON.parse(serializePolicy(merged)).config.maxDepth).toBe(depth);
+  });
+
+  test("resolves conflicts per option", () => {
+    const a = compileRules(["p"], { maxDepth: 2, outputFormat: "document" });
+    const b = compileRules(["p"], { maxDepth: 5, outputFormat: "fragment" });
+    const merged = mergePolicies(a, b, { onConfigConflict: { maxDepth: "second", outputFormat: "first" } });
+    expect(JSON.parse(serializePolicy(merged)).config).toEqual({ maxDepth: 5, outputFormat: "document" });
+    expect(() => mergePolicies(a, b, { onConfigConflict: { maxDepth: "second" } })).toThrow(
+      expect.objectContaining({ field: "config.outputFormat" })
+    );
+  });
+
+  test("refuses stricter for an option without a stricter value", () => {
+    const a = compileRules(["p"], { outputFormat: "document" });
+    const b = compileRules(["p"], { outputFormat: "fragment" });
+    expect(() => mergePolicies(a, b, { onConfigConflict: "stricter" })).toThrow(PolicyConflictError);
+  });
+
+  test("throws on renames that disagree", () => {
+    const a = compileRules(["strong", "b->strong"]);
+    const b = compileRules(["em", "b->em"]);
+    expect(() => mergePolicies(a, b)).toThrow(expect.objectContaining({ field: "renames.b" }));
+  });
+});
+
+describe("intersectPolicies", () => {
+  const platform = compileRules(
+    [
+      "p*",
+      "a{5}",
+      "a|href",
+      "a|href@scheme=https,http,mailto",
+      "a|href@host=*.example.com",
+      "a|target=_blank,_self",
+      "a|class=/note-\\w+/",
+      "*|title",
+      "img",
+      "img|src",
+      "span",
+      "span|style",
+      "style|span|color",
+      "style|span|margin",
+      "b->strong",
+      "strong"
+    ],
+    { allowCommonAttributes: true, maxDepth: 64 }
+  );
+  const tenant = compileRules(
+    [
+      "p*",
+      "a{2}",
+      "a|href",
+      "a|href@scheme=https",
+      "a|href@host=docs.example.com,other.test",
+      "a|target",
+      "a|class=/\\w+-1/",
+      "a|title",
+      "span",
+      "span|style",
+      "style|span|color",
+      "b->strong",
+      "strong",
+      "em",
+      "i->em"
+    ],
+    { dangerouslyAllowJavaScript: true, maxDepth: 16 }
+  );
+  const both = intersectPolicies(platform, tenant);
+
+  test.each([
+    ["a tag only one allows", "<img src=\"/a.png\"><em>x</em>", "x"],
+    ["the smaller count", "<a>1</a><a>2</a><a>3</a>", "<a>1</a><a>2</a>"],
+    ["values both allow", "<a target=\"_blank\">x</a><a target=\"_top\">y</a>", "<a target=\"_blank\">x</a><a>y</a>"],
+    [
+      "values matching both patterns",
+      "<a class=\"note-1\">x</a><a class=\"note-2\">y</a>",
+      "<a class=\"note-1\">x</a><a>y</a>"
+    ],
+    ["schemes both allow", "<a href=\"http://docs.example.com/\">x</a>", "<a>x</a>"],
+    [
+      "hosts both allow",
+      "<a href=\"https://docs.example.com/\">x</a><a href=\"https://other.test/\">y</a>",
+      "<a href=\"https://docs.example.com/\">x</a><a>y</a>"
+    ],
+    [
+      "a * attribute only on tags the other allows it on",
+      "<p title=\"t\">x</p><a title=\"t\">y</a>",
+      "<p>x</p><a title=\"t\">y</a>"
+    ],
+    ["common attributes only where the other allows them", "<p class=\"c\" id=\"i\">x</p>", "<p>x</p>"],
+    [
+      "style properties both allow",
+      "<span style=\"color: red; margin: 0\">x</span>",
+      "<span style=\"color:red\">x</span>"
+    ],
+    ["renames both make", "<b>x</b><i>y</i>", "<strong>x</strong>y"],
+    ["the safety net, whatever onConfigConflict says", "<a onclick=\"x()\">x</a>", "<a>x</a>"]
+  ])("keeps only %s", (_name, input, expected) => {
+    expect(sanitizeWithPolicy(input, both)).toBe(expected);
+  });
+
+  test("never allows more than either policy", () => {
+    const inputs = [
+      "<p title=\"t\" class=\"c\"><a href=\"https://docs.example.com/x\" target=\"_blank\" class=\"note-1\">1</a></p>",
+      "<a href=\"mailto:a@example.com\" title=\"t\">2</a><span style=\"color: red; margin: 1px\">3</span>",
+      "<b>4</b><i>5</i><img src=\"https://www.example.com/a.png\"><a onclick=\"x()\" target=\"_self\">6</a>"
+    ];
+    for (const input of inputs) {
+      const output = sanitizeWithPolicy(input, both);
+      expect(sanitizeWithPolicy(output, platform)).toBe(output);
+      expect(sanitizeWithPolicy(output, tenant)).toBe(output);
+    }
+  });
+
+  test("takes the stricter value of every option that has one", () => {
+    const intersected = intersectPolicies(platform, tenant, { onConfigConflict: "second" });
+    expect(JSON.parse(serializePolicy(intersected)).config).toMatchObject({
+      dangerouslyAllowJavaScript: false,
+      maxDepth: 16
+    });
+  });
+
+  test("keeps a forced attribute only where the other policy allows its value", () => {
+    const forced = compileRules(["a*", "a|target:=_blank", "a|rel+=nofollow"]);
+    const plain = intersectPolicies(forced, compileRules(["a*"]));
+    expect(sanitizeWithPolicy("<a>x</a>", plain)).toBe("<a>x</a>");
+    const allowing = intersectPolicies(forced, compileRules(["a*", "a|target=_blank,_self", "a|rel+=nofollow"]));
+    expect(sanitizeWithPolicy("<a>x</a>", allowing)).toBe("<a target=\"_blank\" rel=\"nofollow\">x</a>");
+    const narrower = intersectPolicies(forced, compileRules(["a*", "a|target=_self"]));
+    expect(sanitizeWithPolicy("<a>x</a>", narrower)).toBe("<a>x</a>");
+  });
+
+  test("throws on other options the policies set differently", () => {
+    const a = compileRules(["p"], { misplacedElements: "remove" });
+    const b = compileRules(["p"], { misplacedElements: "wrap" });
+    expect(() => intersectPolicies(a, b)).toThrow(expect.objectContaining({ field: "config.misplacedElements" }));
+    const first = intersectPolicies(a, b, { onConfigConflict: "first" });
+    expect(JSON.parse(serializePolicy(first)).config.misplacedElements).toBe("remove");
+  });
+
+  test("applies the nesting rules of both", () => {
+    const a = compileRules(["ul", "ol", "li*", "ul>li", "ol>li"], { misplacedElements: "remove" });
+    const b = compileRules(["ul", "ol", "li*", "ol>li"], { misplacedElements: "remove" });
+    expect(sanitizeWithPolicy("<ul><li>x</li></ul><ol><li>y</li></ol>", intersectPolicies(a, b))).toBe(
+      "<ul></ul><ol><li>y</li></ol>"
+    );
+  });
+
+  test("drops a tag left without an allowed parent", () => {
+    const a = compileRules(["ul", "ol", "li", "ul>li"]);
+    const b = compileRules(["ul", "ol", "li", "ol>li"]);
+    expect(sanitizeWithPolicy("<ul><li>x</li></ul>", intersectPolicies(a, b))).toBe("<ul>x</ul>");
+  });
+
+  test("round-trips through serializePolicy and loadPolicy", () => {
+    const https = compileRules(["a", "a|href", "a|href@scheme=https"]);
+    const empty = intersectPolicies(https, compileRules(["a", "a|href", "a|href@scheme=mailto"]));
+    const json = serializePolicy(empty);
+    expect(serializePolicy(loadPolicy(json))).toBe(json);
+    expect(sanitizeWithPolicy("<a href=\"https://x.test/\">x</a>", loadPolicy(json))).toBe("<a>x</a>");
+  });
+});
+
+describe("subtractRules", () => {
+  const policy = compileRules(
+    [
+      "p*",
+      "a{3}",
+      "a|href",
+      "a|href@scheme=https,mailto",
+      "a|target",
+      "a|data-*",
+      "*|title",
+      "img",
+      "ul",
+      "li*",
+      "ul>li",
+      "ol",
+      "ol>li",
+      "span",
+      "span|style",
+      "style|span|color",
+      "style|span|margin",
+      "a|rel+=nofollow",
+      "b->strong",
+      "strong"
+    ],
+    { allowCommonAttributes: true }
+  );
+
+  test.each([
+    ["a tag", ["img"], "<img><p>x</p>", "<p>x</p>"],
+    ["part of a count", ["a{2}"], "<a>1</a><a>2</a>", "<a rel=\"nofollow\">1</a>"],
+    [
+      "an attribute from every tag",
+      ["*|title"],
+      "<p title=\"t\">x</p><a title=\"t\">y</a>",
+      "<p>x</p><a rel=\"nofollow\">y</a>"
+    ],
+    [
+      "an attribute from one tag",
+      ["a|title"],
+      "<p title=\"t\">x</p><a title=\"t\">y</a>",
+      "<p title=\"t\">x</p><a rel=\"nofollow\">y</a>"
+    ],
+    [
+      "a value",
+      ["a|target=_top"],
+      "<a target=\"_top\">x</a><a target=\"_blank\">y</a>",
+      "<a rel=\"nofollow\">x</a><a target=\"_blank\" rel=\"nofollow\">y</a>"
+    ],
+    ["a scheme", ["a|href@scheme=mailto"], "<a href=\"mailto:a@b.test\">x</a>", "<a rel=\"nofollow\">x</a>"],
+    ["a common attribute", ["p|class"], "<p class=\"c\" id=\"i\">x</p>", "<p id=\"i\">x</p>"],
+    ["a prefix family overlapping an attribute", ["a|data-id"], "<a data-x=\"1\">x</a>", "<a rel=\"nofollow\">x</a>"],
+    [
+      "a style property",
+      ["style|span|margin"],
+      "<span style=\"color: red; margin: 0\">x</span>",
+      "<span style=\"color:red\">x</span>"
+    ],
+    ["a forced attribute", ["a|rel+=nofollow"], "<a>x</a>", "<a>x</a>"],
+    ["a rename", ["b->strong"], "<b>x</b><strong>y</strong>", "x<strong>y</strong>"],
+    ["a parent", ["ol>li"], "<ol><li>x</li></ol>", "<ol>x</ol>"]
+  ])("removes %s", (_name, rules, input, expected) => {
+    expect(sanitizeWithPolicy(input, subtractRules(policy, rules))).toBe(expected);
+  });
+
+  test("leaves everything else in place", () => {
+    const input = "<p title=\"t\" class=\"c\"><a href=\"https://x.test/\" target=\"_blank\">x</a></p>";
+    expect(sanitizeWithPolicy(input, subtractRules(policy, ["img"]))).toBe(sanitizeWithPolicy(input, policy));
+  });
+
+  test.each([
+    ["a scoped count", ["a{1}@p"]],
+    ["a parent of a tag allowed anywhere", ["div>p"]],
+    ["a scheme of an attribute with unrestricted URLs", ["img|src@scheme=https"]]
+  ])("rejects subtracting %s", (_name, rules) => {
+    const withSrc = extendPolicy(policy, ["img|src"]);
+    expect(() => subtractRules(withSrc, rules)).toThrow(RuleSyntaxError);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, test } from "vitest";
+import { Window } from "happy-dom";
+import type { SanitizerWindow } from "../src/core.js";
+import { compileRules, createSanitizerFromEnvironment } from "../src/core.js";
+
+// The allowlist pass and DOMPurify are meant to be defense in depth: each
+// layer should enforce the per-tag attribute policy on its own. To test the
+// second layer in isolation, this environment hands DOMPurify the raw input
+// instead of the allowlist pass's result -- as if the first layer had been
+// bypassed entirely -- by making the parsed document serialize back to
+// exactly what was parsed.
+function bypassFirstLayer() {
+  const win = new Window();
+  return createSanitizerFromEnvironment({
+    getDomParser: () => ({
+      parseFromString(html: string, type: string) {
+        const doc = new win.DOMParser().parseFromString(html, type as "text/html") as unknown as Document;
+        Object.defineProperty(doc.documentElement, "outerHTML", { get: () => html });
+        return doc;
+      }
+    }),
+    getDomWindow: () => win as unknown as SanitizerWindow
+  });
+}
+
+describe("the DOMPurify layer enforces the per-tag attribute policy on its own", () => {
+  test("an attribute allowed on one tag does not leak onto another", () => {
+    const { sanitizeWithPolicy } = bypassFirstLayer();
+    const policy = compileRules(["a", "div", "a|href"]);
+    const input = "<a href=\"https://example.com\">a</a><div href=\"https://example.com\">b</div>";
+    const output = sanitizeWithPolicy(input, policy);
+    expect(output).toBe("<a href=\"https://example.com\">a</a><div>b</div>");
+  });
+
+  test("data-* and aria-* attributes need a rule", () => {
+    const { sanitizeWithPolicy } = bypassFirstLayer();
+    const policy = compileRules(["div", "p", "div|data-*"]);
+    const output = sanitizeWithPolicy("<div data-x=\"1\" aria-label=\"l\">a</div><p data-x=\"1\">b</p>", policy);
+    expect(output).toBe("<div data-x=\"1\">a</div><p>b</p>");
+  });
+
+  test("value constraints and URL rules are enforced", () => {
+    const { sanitizeWithPolicy } = bypassFirstLayer();
+    const policy = compileRules(["a", "a", "a|target=_blank", "a|href", "a|href@scheme=https"]);
+    const output = sanitizeWithPolicy(
+      "<a target=\"_blank\" href=\"https://example.com\">a</a><a target=\"_top\" href=\"http://example.com\">b</a>",
+      policy
+    );
+    expect(output).toBe("<a target=\"_blank\" href=\"https://example.com\">a</a><a>b</a>");
+  });
+
+  test("forced attribute values are kept and other values dropped", () => {
+    const { sanitizeWithPolicy } = bypassFirstLayer();
+    const policy = compileRules(["a", "a", "a|rel+=noopener noreferrer"]);
+    const output = sanitizeWithPolicy("<a rel=\"noreferrer noopener\">a</a><a rel=\"opener\">b</a>", policy);
+    expect(output).toBe("<a rel=\"noreferrer noopener\">a</a><a>b</a>");
+  });
+
+  test("allowCommonAttributes defaults stay scoped to their tag", () => {
+    const { sanitizeWithPolicy } = bypassFirstLayer();
+    const policy = compileRules(["a", "p"], { allowCommonAttributes: true });
+    const output = sanitizeWithPolicy("<a title=\"t\" class=\"c\">a</a><p title=\"t\" class=\"c\">b</p>", policy);
+    expect(output).toBe("<a title=\"t\" class=\"c\">a</a><p class=\"c\">b</p>");
+  });
+});
+
+test("sanitizeWithReport attributes the second layer's removals to DOMPurify", () => {
+  const { sanitizeWithReport } = bypassFirstLayer();
+  const policy = compileRules(["a", "div", "a|href"]);
+  const { actions } = sanitizeWithReport("<div href=\"https://example.com\">b</div>", policy);
+  expect(actions).toContainEqual({
+    type: "attribute-removed",
+    reason: "dompurify",
+    tag: "div",
+    attribute: "href",
+    value: "https://example.com"
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, test } from "vitest";
+import { Window } from "happy-dom";
+import { compileRules, createSanitizer, sanitizeToFragment, sanitizeWithPolicy } from "../src/index.js";
+import type { SanitizerWindow } from "../src/index.js";
+
+function serialize(fragment: DocumentFragment): string {
+  const container = fragment.ownerDocument.createElement("div");
+  container.append(fragment);
+  return container.innerHTML;
+}
+
+describe("sanitizeToFragment", () => {
+  test("returns the same content as sanitizeWithPolicy, as nodes", () => {
+    const policy = compileRules(["p*", "a", "a|href", "template", "b"]);
+    const input =
+      "<div><p onclick=\"x()\">a <a href=\"javascript:alert(1)\">b</a></p><p>c</p></div>" +
+      "<template><b>t</b><i>i</i></template>";
+    const fragment = sanitizeToFragment(input, policy);
+    expect(serialize(fragment)).toBe(sanitizeWithPolicy(input, policy));
+  });
+
+  test("the fragment belongs to the supplied window's document and can be appended directly", () => {
+    const win = new Window();
+    const { sanitizeToFragment: toFragment } = createSanitizer(win as unknown as SanitizerWindow);
+    const fragment = toFragment("<p>hi <b>there</b></p>", compileRules(["p", "b"]));
+    expect(fragment.ownerDocument).toBe(win.document);
+    win.document.body.append(fragment as unknown as Parameters<typeof win.document.body.append>[0]);
+    expect(win.document.body.innerHTML).toBe("<p>hi <b>there</b></p>");
+  });
+
+  test("applies truncate", () => {
+    const policy = compileRules(["p*"], { truncate: { limit: 5 } });
+    const input = "<p>Hello world</p><p>again</p>";
+    expect(serialize(sanitizeToFragment(input, policy))).toBe(sanitizeWithPolicy(input, policy));
+  });
+
+  test("holds the body's content even with outputFormat \"document\"", () => {
+    const policy = compileRules(["p"], { outputFormat: "document" });
+    expect(serialize(sanitizeToFragment("<p>x</p>", policy))).toBe("<p>x</p>");
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, expect, test } from "vitest";
+import type { SanitizerHooks } from "../src/index.js";
+import { PolicyViolationError, assertConforms, compileRules, sanitize, sanitizeWithReport } from "../src/index.js";
+
+// Turns `<span class="mention" data-user="ada">@ada</span>` into a profile
+// link. Idempotent: the link it produces is not a span, so later passes leave
+// it alone.
+const mentionHooks: SanitizerHooks = {
+  beforeElement(element, tag) {
+    if (tag !== "span" || element.getAttribute("class") !== "mention") return;
+    const link = element.ownerDocument.createElement("a");
+    link.setAttribute("href", `/users/${element.getAttribute("data-user") ?? ""}`);
+    link.append(...Array.from(element.childNodes));
+    return link;
+  }
+};
+
+describe("element hooks", () => {
+  test("beforeElement can replace an element, and the replacement is checked by the policy", () => {
+    const output = sanitize(
+      "<p>Hi <span class=\"mention\" data-user=\"ada\" onclick=\"x()\">@ada</span></p>",
+      ["p", "a", "a|href"],
+      { hooks: mentionHooks }
+    );
+    expect(output).toBe("<p>Hi <a href=\"/users/ada\">@ada</a></p>");
+  });
+
+  test("beforeElement can remove or unwrap", () => {
+    const hooks: SanitizerHooks = {
+      beforeElement(element) {
+        if (element.getAttribute("data-drop") !== null) return "remove";
+        if (element.getAttribute("data-unwrap") !== null) return "unwrap";
+        return "keep";
+      }
+    };
+    const output = sanitize("<p data-drop>gone</p><p data-unwrap>kept <b>b</b></p><p>p</p>", ["p*", "b"], { hooks });
+    expect(output).toBe("kept <b>b</b><p>p</p>");
+  });
+
+  test("a replacement cannot smuggle in a script", () => {
+    const hooks: SanitizerHooks = {
+      beforeElement(element, tag) {
+        if (tag !== "p") return;
+        const script = element.ownerDocument.createElement("script");
+        script.textContent = "alert(1)";
+        return script;
+      }
+    };
+    expect(sanitize("<p>x</p>", ["p", "script"], { hooks })).toBe("");
+  });
+
+  test("afterElement can remove or unwrap a kept element", () => {
+    const hooks: SanitizerHooks = {
+      afterElement(element) {
+        if (element.textContent === "") return "remove";
+        if (element.getAttribute("title") === "plain") return "unwrap";
+      }
+    };
+    const output = sanitize("<p></p><p title=\"plain\">text</p><p>kept</p>", ["p*", "p|title"], { hooks });
+    expect(output).toBe("text<p>kept</p>");
+  });
+
+  test("attributes added in afterElement are filtered again", () => {
+    const hooks: SanitizerHooks = {
+      afterElement(element) {
+        element.setAttribute("onclick", "alert(1)");
+        element.setAttribute("href", "javascript:alert(1)");
+        element.setAttribute("title", "not allowed");
+        element.setAttribute("rel", "noopener");
+      }
+    };
+    const output = sanitize("<a>x</a>", ["a", "a|href", "a|rel", "a|onclick"], { hooks });
+    expect(output).toBe("<a rel=\"noopener\">x</a>");
+  });
+});
+
+describe("attribute and URL hooks", () => {
+  test("onAttribute can drop or rewrite a value", () => {
+    const hooks: SanitizerHooks = {
+      onAttribute({ name, value }) {
+        if (name === "title" && value === "secret") return false;
+        if (name === "class") return value.toLowerCase();
+      }
+    };
+    const output = sanitize(
+      "<p title=\"secret\" class=\"NOTE\">a</p><p title=\"ok\">b</p>",
+      ["p*", "p|title", "p|class"],
+      { hooks }
+    );
+    expect(output).toBe("<p class=\"note\">a</p><p title=\"ok\">b</p>");
+  });
+
+  test("onAttribute cannot keep an attribute the policy does not allow", () => {
+    const hooks: SanitizerHooks = {
+      onAttribute({ value }) {
+        return value;
+      }
+    };
+    const output = sanitize("<p title=\"t\" onclick=\"alert(1)\">a</p>", ["p", "p|onclick"], { hooks });
+    expect(output).toBe("<p>a</p>");
+  });
+
+  test("onUrl rewrites internal links and every srcset candidate", () => {
+    const hooks: SanitizerHooks = {
+      onUrl({ url }) {
+        if (url.startsWith("/wiki/")) return `https://wiki.example.com${url.slice("/wiki".length)}`;
+      }
+    };
+    const output = sanitize(
+      "<a href=\"/wiki/Home\">h</a><img srcset=\"/wiki/a.png 1x, https://cdn.example.com/b.png 2x\">",
+      ["a", "a|href", "img", "img|srcset"],
+      { hooks }
+    );
+    expect(output).toBe(
+      "<a href=\"https://wiki.example.com/Home\">h</a>" +
+        "<img srcset=\"https://wiki.example.com/a.png 1x, https://cdn.example.com/b.png 2x\">"
+    );
+  });
+
+  test("onUrl can drop the attribute, and rewritten URLs still pass the safety nets and URL rules", () => {
+    const hooks: SanitizerHooks = {
+      onUrl({ url }) {
+        if (url === "/drop") return false;
+        if (url === "/script") return "javascript:alert(1)";
+        if (url === "/http") return "http://example.com/";
+      }
+    };
+    const output = sanitize(
+      "<a href=\"/drop\">a</a><a href=\"/script\">b</a><a href=\"/http\">c</a><a href=\"/keep\">d</a>",
+      ["a*", "a|href", "a|href@scheme=https"],
+      { hooks }
+    );
+    expect(output).toBe("<a>a</a><a>b</a><a>c</a><a href=\"/keep\">d</a>");
+  });
+});
+
+describe("style declaration hooks", () => {
+  const hooks: SanitizerHooks = {
+    onStyleDeclaration({ property, value }) {
+      if (property === "color" && value === "brand") return "#0055aa";
+      if (property === "background") return "url(javascript:alert(1))";
+      if (property === "margin") return false;
+    }
+  };
+
+  test("applies to inline style declarations", () => {
+    const output = sanitize(
+      "<span style=\"color: brand; background: red; margin: 0\">a</span>",
+      ["span", "span|style", "style|span|color", "style|span|background", "style|span|margin"],
+      { hooks }
+    );
+    expect(output).toBe("<span style=\"color:#0055aa\">a</span>");
+  });
+
+  test("applies to <style> rules", () => {
+    const output = sanitize(
+      "<style>.card { color: brand; background: red; margin: 0 }</style>",
+      ["style", "style|.card|color", "style|.card|background", "style|.card|margin"],
+      { hooks }
+    );
+    expect(output).toBe("<style>.card { color: #0055aa\n}</style>");
+  });
+});
+
+describe("hooks in reports and validation", () => {
+  test("sanitizeWithReport records what hooks changed", () => {
+    const policy = compileRules(["p", "a", "a|href", "p|title"], {
+      hooks: {
+        ...mentionHooks,
+        onAttribute: ({ name }) => (name === "title" ? false : undefined)
+      }
+    });
+    const { html, actions } = sanitizeWithReport(
+      "<p title=\"t\"><span class=\"mention\" data-user=\"ada\">@ada</span></p>",
+      policy
+    );
+    expect(html).toBe("<p><a href=\"/users/ada\">@ada</a></p>");
+    expect(actions).toEqual([
+      { type: "attribute-removed", reason: "hook", tag: "p", attribute: "title", value: "t" },
+      { type: "element-replaced", reason: "hook", tag: "span" }
+    ]);
+  });
+
+  test("assertConforms rejects input a hook would rewrite", () => {
+    const policy = compileRules(["a", "a|href"], { hooks: { onUrl: () => "https://example.com/" } });
+    expect(() => assertConforms("<a href=\"https://example.com/\">a</a>", policy)).not.toThrow();
+    expect(() => assertConforms("<a href=\"/x\">a</a>", policy)).toThrow(PolicyViolationError);
+  });
+});
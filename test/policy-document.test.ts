@@ -0,0 +1,197 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { describe, expect, test } from "vitest";
+import type { PolicyDocument } from "../src/index.js";
+import {
+  PolicyFormatError,
+  compilePolicyDocument,
+  compileRules,
+  sanitizeWithPolicy,
+  serializePolicy
+} from "../src/index.js";
+
+const document: PolicyDocument = {
+  $schema: "./node_modules/html-allowlist/schema/policy-document.schema.json",
+  description: "Comments on the public site",
+  tags: {
+    "*": { attributes: ["title"] },
+    p: { max: "*" },
+    a: {
+      description: "Links, at most 3 per list item",
+      max: 5,
+      maxPer: { li: 3 },
+      attributes: [
+        { name: "href", schemes: ["https", "mailto"], hosts: ["*.example.com"] },
+        { name: "target", values: ["_blank"] },
+        { name: "class", pattern: "note-\\w+", flags: "i" },
+        "data-*"
+      ],
+      mergeAttributes: { rel: ["noopener", "noreferrer"] }
+    },
+    img: { attributes: ["src"], setAttributes: { loading: "lazy" } },
+    ul: {},
+    li: { max: 20, parents: ["ul"] },
+    strong: {},
+    span: { attributes: ["style"] }
+  },
+  styles: { span: ["color", "margin"] },
+  renames: { b: "strong" },
+  config: { misplacedElements: "wrap", overCountElements: { a: "unwrap" } }
+};
+
+const equivalentRules = [
+  "*|title",
+  "p*",
+  "a{5}",
+  "a{3}@li",
+  "a|href",
+  "a|href@scheme=https,mailto",
+  "a|href@host=*.example.com",
+  "a|target=_blank",
+  "a|class=/note-\\w+/i",
+  "a|data-*",
+  "a|rel+=noopener noreferrer",
+  "img",
+  "img|src",
+  "img|loading:=lazy",
+  "ul",
+  "li{20}",
+  "ul>li",
+  "strong",
+  "span",
+  "span|style",
+  "style|span|color",
+  "style|span|margin",
+  "b->strong"
+];
+
+// Compiles `document` with `edit` applied and returns what it threw.
+function compileEdited(edit: (document: Record<string, any>) => unknown): unknown {
+  const edited = structuredClone(document) as Record<string, any>;
+  edit(edited);
+  try {
+    compilePolicyDocument(edited as PolicyDocument);
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+describe("compilePolicyDocument", () => {
+  test("compiles to the same policy as the equivalent rules", () => {
+    const fromDocument = compilePolicyDocument(document);
+    const fromRules = compileRules(equivalentRules, document.config);
+    expect(serializePolicy(fromDocument)).toBe(serializePolicy(fromRules));
+    const input =
+      "<p title=\"t\"><a href=\"https://www.example.com/\" target=\"_top\" class=\"NOTE-1\">x</a><b>y</b></p>";
+    expect(sanitizeWithPolicy(input, fromDocument)).toBe(sanitizeWithPolicy(input, fromRules));
+  });
+
+  test("defaults a tag's max to 1", () => {
+    const policy = compilePolicyDocument({ tags: { p: {} } });
+    expect(sanitizeWithPolicy("<p>a</p><p>b</p>", policy)).toBe("<p>a</p>");
+  });
+
+  test("applies config passed alongside the document over the document's own", () => {
+    const policy = compilePolicyDocument(
+      { tags: { p: { max: "*" } }, config: { outputFormat: "document" } },
+      { outputFormat: "fragment", hooks: { afterElement: (element) => (element.textContent ? "keep" : "remove") } }
+    );
+    expect(sanitizeWithPolicy("<p></p><p>b</p>", policy)).toBe("<p>b</p>");
+  });
+
+  test("keeps a pattern with a pipe on the style tag a value constraint", () => {
+    const policy = compilePolicyDocument({
+      tags: { style: { max: "*", attributes: [{ name: "media", pattern: "screen|print" }] } },
+      styles: { p: ["color"] }
+    });
+    const rules = ["style*", "style|media=/screen|print/", "style|p|color"];
+    expect(serializePolicy(policy)).toBe(serializePolicy(compileRules(rules)));
+    const input = "<style media=\"all\">p{color:red}</style><style media=\"print\">p{color:red}</style>";
+    expect(sanitizeWithPolicy(input, policy)).toBe(
+      "<style>p {color:red\n}</style><style media=\"print\">p {color:red\n}</style>"
+    );
+  });
+
+  test("accepts a document parsed from JSON", () => {
+    const parsed = JSON.parse(JSON.stringify(document)) as PolicyDocument;
+    expect(serializePolicy(compilePolicyDocument(parsed))).toBe(serializePolicy(compilePolicyDocument(document)));
+  });
+});
+
+describe("compilePolicyDocument errors", () => {
+  type Edit = (document: Record<string, any>) => unknown;
+  test.each<[string, Edit, string]>([
+    ["a missing tags object", (d) => delete d.tags, "/tags"],
+    ["an unknown top-level field", (d) => (d.rules = []), "/rules"],
+    ["an unknown tag field", (d) => (d.tags.a.maximum = 2), "/tags/a/maximum"],
+    ["a zero max", (d) => (d.tags.a.max = 0), "/tags/a/max"],
+    ["a max on the wildcard tag", (d) => (d.tags["*"].max = 2), "/tags/*/max"],
+    ["a tag name that embeds a rule", (d) => (d.tags["a|onclick"] = {}), "/tags/a|onclick"],
+    ["an uppercase tag name", (d) => (d.tags.P = {}), "/tags/P"],
+    ["an invalid parent", (d) => (d.tags.li.parents = ["ul", "o l"]), "/tags/li/parents/1"],
+    ["a non-integer scoped count", (d) => (d.tags.a.maxPer.li = 1.5), "/tags/a/maxPer/li"],
+    ["an attribute without a name", (d) => (d.tags.a.attributes[1] = { values: ["x"] }), "/tags/a/attributes/1/name"],
+    ["a bare wildcard attribute", (d) => d.tags.a.attributes.push("*"), "/tags/a/attributes/4"],
+    ["a value with a comma", (d) => (d.tags.a.attributes[1].values = ["_blank,_top"]), "/tags/a/attributes/1/values/0"],
+    ["values that read as a pattern", (d) => (d.tags.a.attributes[1].values = ["/x/"]), "/tags/a/attributes/1/values"],
+    ["an invalid pattern", (d) => (d.tags.a.attributes[2].pattern = "("), "/tags/a/attributes/2/pattern"],
+    ["an m flag", (d) => (d.tags.a.attributes[2].flags = "m"), "/tags/a/attributes/2/pattern"],
+    ["flags without a pattern", (d) => (d.tags.a.attributes[1].flags = "i"), "/tags/a/attributes/1/flags"],
+    ["an invalid scheme", (d) => (d.tags.a.attributes[0].schemes = ["ht tp"]), "/tags/a/attributes/0/schemes"],
+    [
+      "a scheme on a non-URL attribute",
+      (d) => (d.tags.a.attributes[1].schemes = ["https"]),
+      "/tags/a/attributes/1/schemes"
+    ],
+    ["a forced event handler", (d) => (d.tags.img.setAttributes.onerror = "x()"), "/tags/img/setAttributes/onerror"],
+    ["an empty token list", (d) => (d.tags.a.mergeAttributes.rel = []), "/tags/a/mergeAttributes/rel"],
+    ["a selector with a pipe", (d) => (d.styles["a|b"] = ["color"]), "/styles/a|b"],
+    ["an invalid property", (d) => (d.styles.span[1] = "mar gin"), "/styles/span/1"],
+    ["a selector that reads as a value rule", (d) => (d.styles["a=b"] = ["color"]), "/styles/a=b/0"],
+    ["a selector with an open bracket", (d) => (d.styles["a[x=1"] = ["color"]), "/styles/a[x=1/0"],
+    ["a rename cycle", (d) => (d.renames.strong = "b"), "/renames/b"],
+    ["a renamed body", (d) => (d.renames.body = "div"), "/renames/body"],
+    ["config with hooks", (d) => (d.config.hooks = {}), "/config/hooks"],
+    ["an out-of-range config value", (d) => (d.config.maxDepth = 0), "/config/maxDepth"],
+    ["an invalid disposition", (d) => (d.config.overCountElements = { a: "explode" }), "/config/overCountElements"]
+  ])("rejects %s", (_name, edit, path) => {
+    const error = compileEdited(edit);
+    expect(error).toBeInstanceOf(PolicyFormatError);
+    expect((error as PolicyFormatError).path).toBe(path);
+  });
+
+  test("keeps the underlying RuleSyntaxError as the cause", () => {
+    const error = compileEdited((d) => (d.tags.a.attributes[2].pattern = "(")) as PolicyFormatError;
+    expect((error.cause as Error).name).toBe("RuleSyntaxError");
+    expect(error.message).toContain("/tags/a/attributes/2/pattern");
+  });
+});
+
+describe("policy document JSON Schema", () => {
+  const schema = JSON.parse(readFileSync(resolve("schema/policy-document.schema.json"), "utf-8"));
+
+  test("is exported by the package", () => {
+    const pkg = JSON.parse(readFileSync(resolve("package.json"), "utf-8"));
+    expect(pkg.exports["./policy-document.schema.json"]).toBe("./schema/policy-document.schema.json");
+    expect(pkg.files).toContain("schema");
+  });
+
+  test("describes the fields compilePolicyDocument accepts", () => {
+    expect(Object.keys(schema.properties).sort()).toEqual(Object.keys(document).sort());
+    expect(Object.keys(schema.$defs.tag.properties).sort()).toEqual(
+      ["attributes", "description", "max", "maxPer", "mergeAttributes", "parents", "setAttributes"]
+    );
+    expect(Object.keys(schema.$defs.attribute.properties).sort()).toEqual(
+      ["description", "flags", "hosts", "name", "pattern", "schemes", "values"]
+    );
+  });
+
+  test("lists every config option a document may carry", () => {
+    for (const option of Object.keys(schema.$defs.config.properties)) {
+      const error = compileEdited((d) => (d.config[option] = Symbol.for("not json")));
+      expect((error as PolicyFormatError).path).toBe(`/config/${option}`);
+      expect((error as PolicyFormatError).message).toContain("invalid value");
+    }
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, expect, test } from "vitest";
+import {
+  PolicyViolationError,
+  assertConforms,
+  compileRules,
+  sanitizeWithPolicy,
+  sanitizeWithReport
+} from "../src/index.js";
+
+describe("sanitizeWithReport", () => {
+  test("returns the same html as sanitizeWithPolicy", () => {
+    const policy = compileRules(["p", "a", "a|href"]);
+    const input = "<div><p onclick=\"x()\">a <a href=\"javascript:alert(1)\">b</a><a>c</a></p></div>";
+    const { html } = sanitizeWithReport(input, policy);
+    expect(html).toBe(sanitizeWithPolicy(input, policy));
+  });
+
+  test("reports nothing for input that already conforms", () => {
+    const policy = compileRules(["p", "a", "a|href"]);
+    const report = sanitizeWithReport("<p><a href=\"https://example.com\">ok</a></p>", policy);
+    expect(report).toEqual({ html: "<p><a href=\"https://example.com\">ok</a></p>", actions: [] });
+  });
+
+  test("reports element decisions with their reason", () => {
+    const policy = compileRules(["p*", "a", "b*", "b{1}@p", "ul>li", "ul", "li"], { misplacedElements: "remove" });
+    const { actions } = sanitizeWithReport(
+      "<div><p><a>1</a><a>2</a><b>x</b><b>y</b></p><script>alert(1)</script><li>z</li></div>",
+      policy
+    );
+    expect(actions).toEqual([
+      { type: "element-unwrapped", reason: "not-allowlisted", tag: "div" },
+      { type: "element-removed", reason: "count-exceeded", tag: "a" },
+      { type: "element-removed", reason: "scoped-count-exceeded", tag: "b" },
+      { type: "element-removed", reason: "script", tag: "script" },
+      { type: "element-removed", reason: "misplaced", tag: "li" }
+    ]);
+  });
+
+  test("reports wrapped and unwrapped misplaced elements", () => {
+    const wrap = compileRules(["ul>li", "ul", "li"], { misplacedElements: "wrap" });
+    expect(sanitizeWithReport("<li>a</li>", wrap).actions).toEqual([
+      { type: "element-wrapped", reason: "misplaced", tag: "li" }
+    ]);
+    const unwrap = compileRules(["ul>li", "ul", "li"]);
+    expect(sanitizeWithReport("<li>a</li>", unwrap).actions).toEqual([
+      { type: "element-unwrapped", reason: "misplaced", tag: "li" }
+    ]);
+  });
+
+  test("reports which attribute rule dropped an attribute", () => {
+    const policy = compileRules([
+      "a*",
+      "a|href",
+      "a|href@scheme=https",
+      "a|target=_blank",
+      "img",
+      "img|src",
+      "img|src@host=cdn.example.com"
+    ]);
+    const { actions } = sanitizeWithReport(
+      "<a href=\"http://example.com\" target=\"_top\" title=\"t\" onclick=\"x()\">a</a>" +
+        "<a href=\"javascript:alert(1)\">b</a>" +
+        "<img src=\"https://evil.example/x.png\">",
+      policy
+    );
+    expect(actions).toEqual([
+      { type: "attribute-removed", reason: "url-scheme", tag: "a", attribute: "href", value: "http://example.com" },
+      { type: "attribute-removed", reason: "value-constraint", tag: "a", attribute: "target", value: "_top" },
+      { type: "attribute-removed", reason: "not-allowlisted", tag: "a", attribute: "title", value: "t" },
+      { type: "attribute-removed", reason: "event-handler", tag: "a", attribute: "onclick", value: "x()" },
+      { type: "attribute-removed", reason: "url-scheme", tag: "a", attribute: "href", value: "javascript:alert(1)" },
+      {
+        type: "attribute-removed",
+        reason: "url-host",
+        tag: "img",
+        attribute: "src",
+        value: "https://evil.example/x.png"
+      }
+    ]);
+  });
+
+  test("reports the dangerous-URL safety net", () => {
+    const policy = compileRules(["a", "a|href"]);
+    const { actions } = sanitizeWithReport("<a href=\"java&#x09;script:alert(1)\">a</a>", policy);
+    expect(actions).toEqual([
+      {
+        type: "attribute-removed",
+        reason: "dangerous-url",
+        tag: "a",
+        attribute: "href",
+        value: "java\tscript:alert(1)"
+      }
+    ]);
+  });
+
+  test("reports dropped inline style declarations", () => {
+    const policy = compileRules(["span", "span|style", "style|span|color", "style|span|background"]);
+    const { html, actions } = sanitizeWithReport(
+      "<span style=\"color: red; background: url(javascript:x); margin: 0\">a</span>",
+      policy
+    );
+    expect(html).toBe("<span style=\"color:red\">a</span>");
+    expect(actions).toEqual([
+      {
+        type: "css-declaration-removed",
+        reason: "dangerous-css-function",
+        tag: "span",
+        attribute: "style",
+        property: "background",
+        value: "url(javascript:x)"
+      },
+      {
+        type: "css-declaration-removed",
+        reason: "not-allowlisted",
+        tag: "span",
+        attribute: "style",
+        property: "margin",
+        value: "0"
+      }
+    ]);
+  });
+
+  test("reports dropped style element rules", () => {
+    const policy = compileRules(["style", "style|.card|color", "style|.card|behavior"]);
+    const { actions } = sanitizeWithReport(
+      "<style>@import url(x.css); .card { color: red; behavior: url(x.htc) } .other { color: blue }</style>",
+      policy
+    );
+    expect(actions).toEqual([
+      { type: "css-rule-removed", reason: "css-at-rule", tag: "style", selector: "@import" },
+      {
+        type: "css-declaration-removed",
+        reason: "dangerous-css-property",
+        tag: "style",
+        selector: ".card",
+        property: "behavior",
+        value: "url(x.htc)"
+      },
+      { type: "css-rule-removed", reason: "not-allowlisted", tag: "style", selector: ".other" }
+    ]);
+  });
+
+  test("reports a style element that is not allowed or ends up empty", () => {
+    expect(sanitizeWithReport("<style>p{color:red}</style>", compileRules(["p"])).actions).toEqual([
+      { type: "element-removed", reason: "style-not-allowed", tag: "style" }
+    ]);
+    const styleOnly = compileRules(["style", "style|.x|color"]);
+    expect(sanitizeWithReport("<style>p{color:red}</style>", styleOnly).actions).toEqual([
+      { type: "css-rule-removed", reason: "not-allowlisted", tag: "style", selector: "p" },
+      { type: "element-removed", reason: "empty-after-filtering", tag: "style" }
+    ]);
+  });
+
+  test("reports attributes set by forced-attribute rules", () => {
+    const policy = compileRules(["a*", "a|rel", "a|rel+=noopener", "a|target"], { addRelNoopener: true });
+    const { actions } = sanitizeWithReport(
+      "<a rel=\"nofollow\">1</a><a target=\"_blank\" rel=\"noopener noreferrer\">2</a>",
+      policy
+    );
+    expect(actions).toEqual([
+      { type: "attribute-set", reason: "forced-attribute", tag: "a", attribute: "rel", value: "nofollow" }
+    ]);
+  });
+
+  test("reports renamed elements", () => {
+    const { actions } = sanitizeWithReport("<b>x</b>", compileRules(["strong", "b->strong"]));
+    expect(actions).toEqual([{ type: "element-renamed", reason: "rename-rule", tag: "b", renamedTo: "strong" }]);
+  });
+
+  test("reports a truncated body as one action", () => {
+    const policy = compileRules(["p*"], { truncate: { limit: 3 } });
+    expect(sanitizeWithReport("<p>abcdef</p><p>g</p>", policy)).toEqual({
+      html: "<p>abc…</p>",
+      actions: [{ type: "content-truncated", reason: "truncate", tag: "body" }]
+    });
+    expect(sanitizeWithReport("<p>abc</p>", policy).actions).toEqual([]);
+  });
+
+  test("does not report comments", () => {
+    const { html, actions } = sanitizeWithReport("<p>a<!-- note --></p><!-- x -->", compileRules(["p"]));
+    expect(html).toBe("<p>a</p>");
+    expect(actions).toEqual([]);
+  });
+
+  test("truncates long removed values", () => {
+    const policy = compileRules(["p"]);
+    const { actions } = sanitizeWithReport(`<p title="${"x".repeat(500)}">a</p>`, policy);
+    expect(actions[0].value).toBe(`${"x".repeat(100)}…`);
+  });
+});
+
+describe("assertConforms", () => {
+  test("returns the input unchanged when it conforms", () => {
+    const policy = compileRules(["p*", "a", "a|href@scheme=https", "a|href"]);
+    const input = "<p>one</p>\n<p><a href='https://example.com'>two</a></p>";
+    expect(assertConforms(input, policy)).toBe(input);
+  });
+
+  test("throws a PolicyViolationError listing every violation", () => {
+    const policy = compileRules(["p", "a|href"]);
+    const input = "<div><p onclick=\"x()\">a</p><p>b</p></div>";
+    let error: unknown;
+    try {
+      assertConforms(input, policy);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(PolicyViolationError);
+    const violation = error as PolicyViolationError;
+    expect(violation.name).toBe("PolicyViolationError");
+    expect(violation.violations).toEqual(sanitizeWithReport(input, policy).actions);
+    expect(violation.violations).toHaveLength(3);
+    expect(violation.message).toContain("3 violations");
+    expect(violation.message).toContain("attribute-removed onclick on <p> (event-handler)");
+  });
+
+  test("accepts input with comments, which are not part of any policy", () => {
+    const input = "<p>a<!-- note --></p>";
+    expect(assertConforms(input, compileRules(["p"]))).toBe(input);
+  });
+
+  test("rejects input that truncation would cut", () => {
+    const policy = compileRules(["p"], { truncate: { by: "words", limit: 2 } });
+    expect(assertConforms("<p>two words</p>", policy)).toBe("<p>two words</p>");
+    expect(() => assertConforms("<p>three words here</p>", policy)).toThrow(/content-truncated <body> \(truncate\)/);
+  });
+
+  test("rejects exactly what sanitization would change", () => {
+    const policy = compileRules(["span", "span|style", "style|span|color"]);
+    expect(() => assertConforms("<span style=\"color: red\">a</span>", policy)).not.toThrow();
+    expect(() => assertConforms("<span style=\"color: red; margin: 0\">a</span>", policy)).toThrow(
+      PolicyViolationError
+    );
+  });
+});
@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import {
+  ResourceLimitError,
+  SanitizeTimeoutError,
+  compileRules,
+  sanitize,
+  sanitizeWithPolicy,
+  sanitizeWithReport
+} from "../src/index.js";
+
+function nested(depth: number): string {
+  return `${"<div>".repeat(depth)}x${"</div>".repeat(depth)}`;
+}
+
+function caught(run: () => unknown): unknown {
+  try {
+    run();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+describe("resource limits", () => {
+  test("maxInputLength rejects oversized input before parsing", () => {
+    expect(sanitize("<p>ok</p>", ["p"], { maxInputLength: 9 })).toBe("<p>ok</p>");
+    const error = caught(() => sanitize("<p>too long</p>", ["p"], { maxInputLength: 9 }));
+    expect(error).toBeInstanceOf(ResourceLimitError);
+    expect(error).toMatchObject({ name: "ResourceLimitError", limit: "maxInputLength", max: 9 });
+  });
+
+  test("maxElements counts every element, including template content", () => {
+    expect(sanitize("<p>a</p><p>b</p>", ["p*"], { maxElements: 2 })).toBe("<p>a</p><p>b</p>");
+    expect(() => sanitize("<p>a</p><p>b</p><p>c</p>", ["p*"], { maxElements: 2 })).toThrow(ResourceLimitError);
+    const error = caught(() =>
+      sanitize("<template><b>1</b><b>2</b></template>", ["template", "b*"], { maxElements: 2 })
+    );
+    expect(error).toMatchObject({ limit: "maxElements", max: 2 });
+  });
+
+  test("maxElements applies to elements that would be removed anyway", () => {
+    expect(() => sanitize("<i></i>".repeat(10), ["p"], { maxElements: 5 })).toThrow(ResourceLimitError);
+  });
+
+  test("maxDepth throws by default", () => {
+    expect(sanitize(nested(3), ["div*"], { maxDepth: 3 })).toBe(nested(3));
+    const error = caught(() => sanitize(nested(4), ["div*"], { maxDepth: 3 }));
+    expect(error).toBeInstanceOf(ResourceLimitError);
+    expect(error).toMatchObject({ limit: "maxDepth", max: 3 });
+  });
+
+  test("excessDepth: \"flatten\" replaces too-deep elements with their text", () => {
+    const output = sanitize("<div><div><b>a<i>b</i></b>c</div></div>", ["div*", "b", "i"], {
+      maxDepth: 2,
+      excessDepth: "flatten"
+    });
+    expect(output).toBe("<div><div>abc</div></div>");
+  });
+
+  test("flattening is reported and converges on deeply nested input", () => {
+    const policy = compileRules(["div*"], { maxDepth: 8, excessDepth: "flatten" });
+    const { html, actions } = sanitizeWithReport(nested(5_000), policy);
+    expect(html).toBe(nested(8));
+    expect(actions).toEqual([{ type: "element-flattened", reason: "max-depth", tag: "div" }]);
+  });
+
+  test("limits are validated when the policy is compiled", () => {
+    expect(() => compileRules(["p"], { maxInputLength: 0 })).toThrow(TypeError);
+    expect(() => compileRules(["p"], { maxElements: 1.5 })).toThrow(TypeError);
+    expect(() => compileRules(["p"], { maxDepth: -1 })).toThrow(TypeError);
+    expect(() => compileRules(["p"], { excessDepth: "truncate" as "flatten" })).toThrow(TypeError);
+  });
+});
+
+// Most cases parse 100k levels once or twice, which takes a few seconds.
+describe("deeply nested input", { timeout: 60_000 }, () => {
+  const deep = nested(100_000);
+
+  test("depth is not limited by default", () => {
+    // Past a few thousand levels happy-dom's own recursion overflows (see the
+    // cases below), so beyond that a maxDepth cap, not the iterative walk, is
+    // what keeps deep input from crashing the sanitizer.
+    expect(sanitize(nested(2_000), ["div*"])).toBe(nested(2_000));
+    expect(sanitize(nested(2_000), ["p"])).toBe("x");
+  });
+
+  test("100k levels flatten without overflowing the stack", () => {
+    expect(sanitize(deep, ["div*"], { maxDepth: 512, excessDepth: "flatten" })).toBe(nested(512));
+    expect(sanitize(deep, ["p"], { maxDepth: 512, excessDepth: "flatten" })).toBe("x");
+  });
+
+  test("100k levels are rejected by maxDepth before anything recurses", () => {
+    expect(caught(() => sanitize(deep, ["div*"], { maxDepth: 512 }))).toMatchObject({ limit: "maxDepth", max: 512 });
+  });
+
+  test("nested templates are measured through their content", () => {
+    const templates = `${"<template>".repeat(600)}x${"</template>".repeat(600)}`;
+    expect(caught(() => sanitize(templates, ["template*"], { maxDepth: 512 }))).toMatchObject({ limit: "maxDepth" });
+  });
+
+  test("without maxDepth, a stack overflow in the DOM implementation surfaces as ResourceLimitError", () => {
+    const error = caught(() => sanitize(deep, ["div*"]));
+    expect(error).toBeInstanceOf(ResourceLimitError);
+    expect(error).toMatchObject({ limit: "callStack", max: Infinity });
+    expect((error as Error).message).toContain("set maxDepth");
+    expect((error as Error).cause).toBeInstanceOf(RangeError);
+  });
+
+  test("a stack overflow in the DOM implementation surfaces as ResourceLimitError", () => {
+    // happy-dom serializes recursively, so raising maxDepth this far moves the
+    // failure into the DOM layer; it must still not escape as a RangeError,
+    // nor claim the input exceeded a limit it was within.
+    const error = caught(() => sanitize(deep, ["div*"], { maxDepth: 200_000 }));
+    expect(error).toBeInstanceOf(ResourceLimitError);
+    expect(error).toMatchObject({ limit: "callStack", max: 200_000 });
+    expect((error as Error).message).not.toContain("exceeds");
+    expect((error as Error).cause).toBeInstanceOf(RangeError);
+  });
+});
+
+describe("time budget", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test("an already-aborted signal stops the call before the first pass", () => {
+    const controller = new AbortController();
+    controller.abort(new Error("client went away"));
+    const error = caught(() => sanitize("<p>a</p>", ["p"], {}, { signal: controller.signal }));
+    expect(error).toBeInstanceOf(SanitizeTimeoutError);
+    expect(error).toMatchObject({ name: "SanitizeTimeoutError", passesCompleted: 0 });
+    expect((error as Error).cause).toEqual(new Error("client went away"));
+  });
+
+  test("aborting during a pass stops within the element loop and reports completed passes", () => {
+    const controller = new AbortController();
+    let seen = 0;
+    const policy = compileRules(["p*"], {
+      hooks: {
+        afterElement() {
+          seen += 1;
+          // The first element of the second pass.
+          if (seen === 301) controller.abort();
+        }
+      }
+    });
+    const error = caught(() =>
+      sanitizeWithReport("<p onclick=\"x()\">a</p>".repeat(300), policy, { signal: controller.signal })
+    );
+    expect(error).toMatchObject({ name: "SanitizeTimeoutError", passesCompleted: 1 });
+    expect(seen).toBeLessThan(600);
+  });
+
+  test("an aborted signal stops only the call it was passed to", () => {
+    const policy = compileRules(["p"]);
+    const controller = new AbortController();
+    controller.abort();
+    expect(() => sanitizeWithPolicy("<p>a</p>", policy, { signal: controller.signal })).toThrow(SanitizeTimeoutError);
+    expect(sanitizeWithPolicy("<p>a</p>", policy)).toBe("<p>a</p>");
+    expect(sanitizeWithPolicy("<p>a</p>", policy, { signal: new AbortController().signal })).toBe("<p>a</p>");
+  });
+
+  test("deadlineMs is measured from the start of the call", () => {
+    let now = 0;
+    vi.spyOn(performance, "now").mockImplementation(() => {
+      now += 40;
+      return now;
+    });
+    const policy = compileRules(["p"]);
+    expect(() => sanitizeWithPolicy("<p>a</p>", policy, { deadlineMs: 10 })).toThrow(SanitizeTimeoutError);
+    expect(sanitizeWithPolicy("<p>a</p>", policy, { deadlineMs: 1_000 })).toBe("<p>a</p>");
+  });
+
+  test("deadlineMs is validated on each call", () => {
+    const policy = compileRules(["p"]);
+    expect(() => sanitizeWithPolicy("<p>a</p>", policy, { deadlineMs: 0 })).toThrow(TypeError);
+    expect(() => sanitizeWithPolicy("<p>a</p>", policy, { deadlineMs: Number.NaN })).toThrow(TypeError);
+  });
+});
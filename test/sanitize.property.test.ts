@@ -96,6 +96,18 @@ describe("sanitize property-based", () => {
     );
   });
 
+  test("idempotence holds when disallowed and over-count elements are escaped", () => {
+    fc.assert(
+      fc.property(htmlDocArb, rulesArb, configArb, (html, rules, baseConfig) => {
+        const config = { ...baseConfig, disallowedElements: "escape", overCountElements: "escape" } as const;
+        const once = sanitize(html, rules, config);
+        const twice = sanitize(once, rules, config);
+        expect(twice).toBe(once);
+      }),
+      propertyOptions
+    );
+  });
+
   test("tag counts never exceed rule allowance", () => {
     fc.assert(
       fc.property(htmlDocArb, rulesArb, configArb, (html, rules, config) => {
@@ -19,6 +19,27 @@ describe("sanitize", () => {
     expect(bodyFrom(output).innerHTML).toBe("<p><a>one</a><a>two</a></p>");
   });
 
+  test("tag{n} allows n elements", () => {
+    const input = "<ul><li>1</li><li>2</li><li>3</li></ul>";
+    expect(sanitize(input, ["ul", "li{2}"])).toBe("<ul><li>1</li><li>2</li></ul>");
+  });
+
+  test("tag* allows any number of elements", () => {
+    const input = "<p>1</p>".repeat(200);
+    expect(sanitize(input, ["p*"])).toBe(input);
+  });
+
+  test("counted forms add to the multiset total", () => {
+    const input = "<li>1</li><li>2</li><li>3</li><li>4</li>";
+    expect(sanitize(input, ["li{2}", "li"])).toBe("<li>1</li><li>2</li><li>3</li>");
+    expect(sanitize(input, ["li{2}", "li*"])).toBe(input);
+  });
+
+  test("an unbounded tag does not saturate counts for other tags", () => {
+    const input = "<p>1</p><p>2</p><a>x</a><a>y</a>";
+    expect(sanitize(input, ["p*", "a"])).toBe("<p>1</p><p>2</p><a>x</a>");
+  });
+
   test("applies tag counts globally across the document", () => {
     const input = "<a>first</a><div><a>second</a></div><a>third</a>";
     const output = sanitize(input, ["a", "a", "div"]);
@@ -668,6 +689,561 @@ describe("sanitize", () => {
   });
 });
 
+describe("nesting rules", () => {
+  const rules = ["ul", "ul", "ol", "li*", "p", "ul>li", "ol>li"];
+
+  test("keeps elements inside an allowed parent", () => {
+    const input = "<ul><li>1</li></ul><ol><li>2</li></ol>";
+    expect(sanitize(input, rules)).toBe(input);
+  });
+
+  test("unwraps misplaced elements by default", () => {
+    expect(sanitize("<li>top</li><p><li>in p</li></p>", rules)).toBe("top<p>in p</p>");
+  });
+
+  test("removes misplaced elements with misplacedElements: remove", () => {
+    expect(sanitize("<li>top</li><ul><li>ok</li></ul>", rules, { misplacedElements: "remove" })).toBe(
+      "<ul><li>ok</li></ul>"
+    );
+  });
+
+  test("wraps consecutive misplaced siblings in one parent with misplacedElements: wrap", () => {
+    const output = sanitize("<li>1</li> <li>2</li><p>x</p><li>3</li>", rules, { misplacedElements: "wrap" });
+    expect(output).toBe("<ul><li>1</li> <li>2</li></ul><p>x</p><ul><li>3</li></ul>");
+  });
+
+  test("falls back to unwrapping when no parent tag has count left", () => {
+    const output = sanitize("<li>1</li><p>x</p><li>2</li>", ["ul", "li*", "p", "ul>li"], {
+      misplacedElements: "wrap"
+    });
+    expect(output).toBe("<ul><li>1</li></ul><p>x</p>2");
+  });
+
+  test("checks the parent left after a disallowed ancestor is unwrapped", () => {
+    expect(sanitize("<menu><li>x</li></menu>", rules)).toBe("x");
+  });
+
+  test("only wraps when the wrapper itself would be correctly placed", () => {
+    const nestedRules = ["div", "ul*", "li*", "div>ul", "ul>li"];
+    const config = { misplacedElements: "wrap" } as const;
+    const output = sanitize("<div><li>a</li></div><li>b</li>", nestedRules, config);
+    expect(output).toBe("<div><ul><li>a</li></ul></div>b");
+    expect(sanitize(output, nestedRules, config)).toBe(output);
+  });
+
+  test("table>tr and table>col match through the tbody and colgroup the parser implies", () => {
+    const tableRules = ["table", "tbody", "colgroup", "col", "tr*", "td*", "table>tr", "tr>td", "table>col"];
+    const config = { misplacedElements: "wrap" } as const;
+    expect(sanitize("<table><tr><td>a</td></tr></table>", tableRules, config)).toBe(
+      "<table><tbody><tr><td>a</td></tr></tbody></table>"
+    );
+    const withColumns = "<table><colgroup><col></colgroup><tbody><tr><td>a</td></tr></tbody></table>";
+    expect(sanitize(withColumns, tableRules, config)).toBe(withColumns);
+  });
+
+  test("body>tag allows an element at the top level", () => {
+    expect(sanitize("<li>top</li>", ["li", "body>li", "ul>li"])).toBe("<li>top</li>");
+  });
+});
+
+describe("scoped tag counts", () => {
+  test("caps a tag per nearest ancestor of the scope tag", () => {
+    const input = "<figure><img><img></figure><figure><img></figure>";
+    const output = sanitize(input, ["figure*", "img*", "img@figure"]);
+    expect(output).toBe("<figure><img></figure><figure><img></figure>");
+  });
+
+  test("counts against the nearest ancestor only", () => {
+    const rules = ["ul*", "li*", "a*", "a{2}@li"];
+    const input = "<ul><li><a>1</a><ul><li><a>2</a><a>3</a><a>4</a></li></ul><a>5</a><a>6</a></li></ul>";
+    const output = sanitize(input, rules);
+    expect(output).toBe("<ul><li><a>1</a><ul><li><a>2</a><a>3</a></li></ul><a>5</a></li></ul>");
+  });
+
+  test("does not affect elements outside any scope element", () => {
+    expect(sanitize("<img><img><figure><img></figure>", ["figure", "img*", "img@figure"])).toBe(
+      "<img><img><figure><img></figure>"
+    );
+  });
+
+  test("the global count still applies", () => {
+    expect(sanitize("<li><a>1</a></li><li><a>2</a></li>", ["li*", "a", "a{3}@li"])).toBe(
+      "<li><a>1</a></li><li></li>"
+    );
+  });
+
+  test("several scopes for one tag all apply", () => {
+    const rules = ["div*", "p*", "b*", "b{2}@div", "b@p"];
+    expect(sanitize("<div><p><b>1</b><b>2</b></p><b>3</b><b>4</b></div>", rules)).toBe(
+      "<div><p><b>1</b></p><b>3</b></div>"
+    );
+  });
+});
+
+describe("attribute wildcards", () => {
+  test("a prefix wildcard allows an attribute family on one tag", () => {
+    const input = "<div data-a=\"1\" data-long-name=\"2\" datax=\"3\">x</div><p data-a=\"1\">y</p>";
+    const output = sanitize(input, ["div", "p", "div|data-*"]);
+    expect(output).toBe("<div data-a=\"1\" data-long-name=\"2\">x</div><p>y</p>");
+  });
+
+  test("a tag wildcard applies an attribute rule to every tag", () => {
+    const input = "<p title=\"a\" aria-label=\"b\" role=\"c\">x</p><span aria-hidden=\"true\">y</span>";
+    const output = sanitize(input, ["p", "span", "*|title", "*|aria-*"]);
+    expect(output).toBe("<p title=\"a\" aria-label=\"b\">x</p><span aria-hidden=\"true\">y</span>");
+  });
+
+  test("tag wildcards combine with value constraints and URL rules", () => {
+    const rules = ["a", "img", "*|href", "*|src", "*|href@scheme=https", "*|src@scheme=https", "*|hidden=hidden,"];
+    const input = "<a href=\"http://example.com\" hidden>x</a><img src=\"https://example.com/a.png\" hidden=\"no\">";
+    const output = sanitize(input, rules);
+    expect(output).toBe("<a hidden=\"\">x</a><img src=\"https://example.com/a.png\">");
+  });
+
+  test("a prefix wildcard survives the DOMPurify layer for non-data families", () => {
+    const output = sanitize("<div x-on=\"1\" x-bind=\"2\">x</div>", ["div", "div|x-*"]);
+    expect(output).toBe("<div x-on=\"1\" x-bind=\"2\">x</div>");
+  });
+
+  test("a wildcard does not re-allow event handlers", () => {
+    const output = sanitize("<div onclick=\"alert(1)\" onload=\"alert(2)\">x</div>", ["div", "*|on*"]);
+    expect(output).toBe("<div>x</div>");
+  });
+
+  test("wildcard-matched URL attributes still go through the URL pre-filter", () => {
+    const output = sanitize("<a data-href=\"x\" href=\"javascript:alert(1)\">x</a>", ["a", "a|data-*", "*|href"]);
+    expect(output).toBe("<a data-href=\"x\">x</a>");
+  });
+});
+
+describe("attribute value constraints", () => {
+  test("keeps an attribute whose value is in the enumerated list", () => {
+    const output = sanitize("<a target=\"_self\">x</a>", ["a", "a|target=_blank,_self"]);
+    expect(firstTag(output, "a")?.getAttribute("target")).toBe("_self");
+  });
+
+  test("drops an attribute whose value is not in the enumerated list", () => {
+    const output = sanitize("<a target=\"evil\">x</a>", ["a", "a|target=_blank,_self"]);
+    expect(firstTag(output, "a")?.hasAttribute("target")).toBe(false);
+  });
+
+  test("anchors patterns to the whole value", () => {
+    const rules = ["div", "div", "div|class=/note(-\\w+)?/"];
+    const output = sanitize("<div class=\"note-info\">a</div><div class=\"note-info evil\">b</div>", rules);
+    const divs = Array.from(bodyFrom(output).querySelectorAll("div"));
+    expect(divs[0].getAttribute("class")).toBe("note-info");
+    expect(divs[1].hasAttribute("class")).toBe(false);
+  });
+
+  test("patterns may contain a pipe and honor flags", () => {
+    const output = sanitize("<span title=\"B\">x</span>", ["span", "span|title=/a|b/i"]);
+    expect(firstTag(output, "span")?.getAttribute("title")).toBe("B");
+  });
+
+  test("a pattern with a pipe on the style tag constrains its attribute", () => {
+    const output = sanitize("<style title=\"b\">.x{color:red}</style><style title=\"c\">.x{color:red}</style>", [
+      "style*",
+      "style|title=/a|b/",
+      "style|.x|color"
+    ]);
+    const styles = Array.from(new DOMParser().parseFromString(output, "text/html").querySelectorAll("style"));
+    expect(styles.map((style) => style.getAttribute("title"))).toEqual(["b", null]);
+  });
+
+  test("anchors patterns to the whole value across line breaks", () => {
+    const output = sanitize("<div class=\"x\nnote-1\">a</div>", ["div", "div|class=/note-\\w+/s"]);
+    expect(firstTag(output, "div")?.hasAttribute("class")).toBe(false);
+  });
+
+  test("an unconstrained rule for the same attribute admits any value", () => {
+    const output = sanitize("<a target=\"other\">x</a>", ["a", "a|target=_blank", "a|target"]);
+    expect(firstTag(output, "a")?.getAttribute("target")).toBe("other");
+  });
+
+  test("a constraint narrows the allowCommonAttributes default for that attribute", () => {
+    const rules = ["a", "a", "a|target=_blank"];
+    const input = "<a target=\"_blank\" title=\"t\">x</a><a target=\"_top\" title=\"t\">y</a>";
+    const output = sanitize(input, rules, { allowCommonAttributes: true });
+    const anchors = Array.from(bodyFrom(output).querySelectorAll("a"));
+    expect(anchors[0].getAttribute("target")).toBe("_blank");
+    expect(anchors[1].hasAttribute("target")).toBe(false);
+    expect(anchors[1].getAttribute("title")).toBe("t");
+  });
+
+  test("a matching value is still subject to the URL pre-filter", () => {
+    const output = sanitize("<a href=\"javascript:alert(1)\">x</a>", ["a", "a|href=/.*/"]);
+    expect(firstTag(output, "a")?.hasAttribute("href")).toBe(false);
+  });
+});
+
+describe("URL scheme rules", () => {
+  const rules = ["a", "a", "a", "a", "a|href", "a|href@scheme=https,mailto"];
+
+  test("keeps URLs whose scheme is listed and drops the rest", () => {
+    const input =
+      "<a href=\"https://example.com\">1</a><a href=\"mailto:x@example.com\">2</a>" +
+      "<a href=\"http://example.com\">3</a><a href=\"tel:+15555555555\">4</a>";
+    const hrefs = Array.from(bodyFrom(sanitize(input, rules)).querySelectorAll("a")).map((a) =>
+      a.getAttribute("href")
+    );
+    expect(hrefs).toEqual(["https://example.com", "mailto:x@example.com", null, null]);
+  });
+
+  test("matches schemes case-insensitively and through obfuscation", () => {
+    const input = "<a href=\"HTTPS://example.com\">1</a><a href=\" ht&#x74;p://example.com\">2</a>";
+    const anchors = Array.from(bodyFrom(sanitize(input, rules)).querySelectorAll("a"));
+    expect(anchors[0].hasAttribute("href")).toBe(true);
+    expect(anchors[1].hasAttribute("href")).toBe(false);
+  });
+
+  test("relative URLs pass", () => {
+    const output = sanitize("<a href=\"/help?x=a:b\">x</a>", rules);
+    expect(firstTag(output, "a")?.getAttribute("href")).toBe("/help?x=a:b");
+  });
+
+  test("is scoped to the tag and attribute named by the rule", () => {
+    const input = "<a href=\"http://example.com\">x</a><area href=\"http://example.com\">";
+    const output = sanitize(input, ["a", "area", "a|href", "area|href", "area|href@scheme=https"]);
+    expect(firstTag(output, "a")?.getAttribute("href")).toBe("http://example.com");
+    expect(firstTag(output, "area")?.hasAttribute("href")).toBe(false);
+  });
+
+  test("does not by itself allow the attribute", () => {
+    const output = sanitize("<a href=\"https://example.com\">x</a>", ["a", "a|href@scheme=https"]);
+    expect(firstTag(output, "a")?.hasAttribute("href")).toBe(false);
+  });
+
+  test("checks every srcset candidate", () => {
+    const srcsetRules = ["img", "img", "img|srcset", "img|srcset@scheme=https"];
+    const input =
+      "<img srcset=\"https://example.com/a.png 1x, https://example.com/b.png 2x\">" +
+      "<img srcset=\"https://example.com/a.png 1x, http://example.com/b.png 2x\">";
+    const images = Array.from(bodyFrom(sanitize(input, srcsetRules)).querySelectorAll("img"));
+    expect(images[0].hasAttribute("srcset")).toBe(true);
+    expect(images[1].hasAttribute("srcset")).toBe(false);
+  });
+
+  test("applies even when dangerouslyAllowJavaScript is true", () => {
+    const output = sanitize("<a href=\"http://example.com\">x</a>", rules, { dangerouslyAllowJavaScript: true });
+    expect(firstTag(output, "a")?.hasAttribute("href")).toBe(false);
+  });
+});
+
+describe("URL host rules", () => {
+  const rules = ["img", "img", "img", "img|src", "img|src@host=example.com,*.example-cdn.com"];
+
+  function srcs(output: string): Array<string | null> {
+    return Array.from(bodyFrom(output).querySelectorAll("img")).map((img) => img.getAttribute("src"));
+  }
+
+  test("keeps listed hosts and subdomains matched by a wildcard", () => {
+    const input =
+      "<img src=\"https://example.com/a.png\"><img src=\"https://img.eu.example-cdn.com/b.png\">" +
+      "<img src=\"https://tracker.example/p.gif\">";
+    expect(srcs(sanitize(input, rules))).toEqual([
+      "https://example.com/a.png",
+      "https://img.eu.example-cdn.com/b.png",
+      null
+    ]);
+  });
+
+  test("a wildcard does not match the bare domain or a lookalike suffix", () => {
+    const input = "<img src=\"https://example-cdn.com/a.png\"><img src=\"https://evilexample-cdn.com/b.png\">";
+    expect(srcs(sanitize(input, rules))).toEqual([null, null]);
+  });
+
+  test("normalizes percent-encoded, mixed-case and trailing-dot hosts", () => {
+    const input = "<img src=\"https://%65xample.COM./a.png\">";
+    expect(srcs(sanitize(input, rules))).toEqual(["https://%65xample.COM./a.png"]);
+  });
+
+  test("normalizes IDN hosts in both rules and documents", () => {
+    const idnRules = ["img", "img", "img|src", "img|src@host=bücher.example"];
+    const input = "<img src=\"https://xn--bcher-kva.example/a.png\"><img src=\"https://BÜCHER.example/b.png\">";
+    expect(srcs(sanitize(input, idnRules))).toEqual([
+      "https://xn--bcher-kva.example/a.png",
+      "https://BÜCHER.example/b.png"
+    ]);
+  });
+
+  test("protocol-relative URLs are checked against their own host", () => {
+    const input = "<img src=\"//tracker.example/p.gif\">";
+    expect(srcs(sanitize(input, rules, { baseUrl: "https://example.com/" }))).toEqual([null]);
+  });
+
+  test("relative URLs are dropped without a baseUrl and resolved against it when given", () => {
+    const input = "<img src=\"/a.png\">";
+    expect(srcs(sanitize(input, rules))).toEqual([null]);
+    expect(srcs(sanitize(input, rules, { baseUrl: "https://example.com/posts/" }))).toEqual(["/a.png"]);
+    expect(srcs(sanitize(input, rules, { baseUrl: "https://elsewhere.example/" }))).toEqual([null]);
+  });
+
+  test("URLs without a host fail a host rule", () => {
+    const output = sanitize("<a href=\"mailto:x@example.com\">x</a>", ["a", "a|href", "a|href@host=example.com"]);
+    expect(firstTag(output, "a")?.hasAttribute("href")).toBe(false);
+  });
+
+  test("checks every srcset candidate", () => {
+    const srcsetRules = ["img", "img|srcset", "img|srcset@host=example.com"];
+    const output = sanitize(
+      "<img srcset=\"https://example.com/a.png 1x, https://tracker.example/b.png 2x\">",
+      srcsetRules
+    );
+    expect(firstTag(output, "img")?.hasAttribute("srcset")).toBe(false);
+  });
+});
+
+describe("forced attributes", () => {
+  test("tag|attr+= merges tokens into the attribute", () => {
+    const rules = ["a*", "a|rel", "a|rel+=noopener noreferrer"];
+    const output = sanitize("<a>1</a><a rel=\"nofollow\">2</a><a rel=\"NOOPENER\">3</a>", rules);
+    const rels = Array.from(bodyFrom(output).querySelectorAll("a")).map((a) => a.getAttribute("rel"));
+    expect(rels).toEqual(["noopener noreferrer", "nofollow noopener noreferrer", "NOOPENER noreferrer"]);
+  });
+
+  test("tag|attr:= sets the attribute, replacing any value", () => {
+    const output = sanitize("<img src=\"/a.png\" loading=\"eager\"><img src=\"/b.png\">", [
+      "img*",
+      "img|src",
+      "img|loading",
+      "img|loading:=lazy"
+    ]);
+    expect(output).toBe("<img src=\"/a.png\" loading=\"lazy\"><img src=\"/b.png\" loading=\"lazy\">");
+  });
+
+  test("tag|attr:= with no value sets an empty attribute", () => {
+    const output = sanitize("<iframe src=\"https://example.com\" sandbox=\"allow-scripts\"></iframe>", [
+      "iframe",
+      "iframe|src",
+      "iframe|sandbox:="
+    ]);
+    expect(output).toBe("<iframe src=\"https://example.com\" sandbox=\"\"></iframe>");
+  });
+
+  test("a forced attribute does not allow other values of that attribute", () => {
+    const output = sanitize("<a rel=\"nofollow\">x</a>", ["a", "a|rel+=noopener"]);
+    expect(output).toBe("<a rel=\"noopener\">x</a>");
+  });
+
+  test("applies only to kept elements", () => {
+    expect(sanitize("<p><a>x</a></p>", ["p", "a|rel:=nofollow"])).toBe("<p>x</p>");
+  });
+
+  test("*|attr applies to every kept element", () => {
+    expect(sanitize("<p>a <b>b</b></p>", ["p", "b", "*|translate:=no"])).toBe(
+      "<p translate=\"no\">a <b translate=\"no\">b</b></p>"
+    );
+  });
+
+  test("addRelNoopener adds noopener noreferrer whenever target survives", () => {
+    const input =
+      "<a href=\"https://example.com\" target=\"_blank\">1</a>" +
+      "<a href=\"https://example.com\">2</a>" +
+      "<a href=\"https://example.com\" target=\"_top\" rel=\"nofollow\">3</a>";
+    const output = sanitize(input, ["a*", "a|target=_blank"], { allowCommonAttributes: true, addRelNoopener: true });
+    const rels = Array.from(bodyFrom(output).querySelectorAll("a")).map((a) => a.getAttribute("rel"));
+    expect(rels).toEqual(["noopener noreferrer", null, "nofollow"]);
+  });
+
+  test("addRelNoopener keeps rel even when rel is not otherwise allowed", () => {
+    const output = sanitize("<a target=\"_blank\" rel=\"opener\">x</a>", ["a", "a|target"], {
+      addRelNoopener: true
+    });
+    expect(output).toBe("<a target=\"_blank\" rel=\"noopener noreferrer\">x</a>");
+  });
+});
+
+describe("rename rules", () => {
+  test("renames a tag to an allowed tag instead of unwrapping it", () => {
+    const rules = ["p", "strong*", "em*", "b->strong", "i->em"];
+    expect(sanitize("<p><b>bold</b> and <i>italic</i> <u>plain</u></p>", rules)).toBe(
+      "<p><strong>bold</strong> and <em>italic</em> plain</p>"
+    );
+  });
+
+  test("carries over only the attributes the target tag allows", () => {
+    const output = sanitize("<center class=\"x\" align=\"center\" title=\"t\">a</center>", [
+      "div",
+      "div|class",
+      "center|align",
+      "center->div"
+    ]);
+    expect(output).toBe("<div class=\"x\">a</div>");
+  });
+
+  test("renamed elements count toward the target tag", () => {
+    expect(sanitize("<h1>a</h1><h2>b</h2><h1>c</h1>", ["h2{2}", "h1->h2"])).toBe("<h2>a</h2><h2>b</h2>");
+  });
+
+  test("renamed elements are unwrapped when the target tag is not allowed", () => {
+    expect(sanitize("<p><font color=\"red\">x</font></p>", ["p", "font->span"])).toBe("<p>x</p>");
+  });
+
+  test("follows chained renames", () => {
+    expect(sanitize("<b>x</b>", ["em", "b->strong", "strong->em"])).toBe("<em>x</em>");
+  });
+
+  test("renaming into <script> is still caught by the safety net", () => {
+    expect(sanitize("<p><code>alert(1)</code></p>", ["p", "script", "code->script"])).toBe("<p></p>");
+  });
+
+  test("nesting rules see the renamed tag", () => {
+    const output = sanitize("<ul><b>x</b></ul><b>y</b>", ["ul", "li*", "ul>li", "b->li"]);
+    expect(output).toBe("<ul><li>x</li></ul>y");
+  });
+});
+
+describe("element dispositions", () => {
+  test("disallowed elements can be removed instead of unwrapped", () => {
+    expect(sanitize("<p>a <u>b</u></p>", ["p"], { disallowedElements: "remove" })).toBe("<p>a </p>");
+  });
+
+  test("over-count elements can be unwrapped instead of removed", () => {
+    expect(sanitize("<p>1</p><p>2</p>", ["p"], { overCountElements: "unwrap" })).toBe("<p>1</p>2");
+  });
+
+  test("dispositions can be set per tag, with * for the rest", () => {
+    const output = sanitize("<div><u>u</u><font>f</font></div>", ["div"], {
+      disallowedElements: { "*": "unwrap", font: "remove" }
+    });
+    expect(output).toBe("<div>u</div>");
+  });
+
+  test("replaceWith turns the element into an allowed tag", () => {
+    const output = sanitize("<font class=\"x\" color=\"red\">a</font><p>1</p><p>2</p>", ["span*", "span|class", "p"], {
+      disallowedElements: "replaceWith:span",
+      overCountElements: { p: "replaceWith:span" }
+    });
+    expect(output).toBe("<span class=\"x\">a</span><p>1</p><span>2</span>");
+  });
+
+  test("a replacement that cannot be kept falls back to the default", () => {
+    expect(sanitize("<u>a</u><b>b</b>", ["b"], { disallowedElements: "replaceWith:em" })).toBe("a<b>b</b>");
+    expect(sanitize("<i>0</i><b>1</b><b>2</b>", ["b", "i"], { overCountElements: "replaceWith:i" })).toBe(
+      "<i>0</i><b>1</b>"
+    );
+  });
+
+  test("iframe, object, noscript and title content does not leak when they are dropped", () => {
+    const input =
+      "<p>a</p><iframe>frame text</iframe><object><p>fallback</p></object>" +
+      "<noscript>no script</noscript><title>page title</title>";
+    expect(sanitize(input, ["p*"])).toBe("<p>a</p>");
+  });
+
+  test("escape shows disallowed tags literally and keeps allowed descendants", () => {
+    const input = "<p>Try <marquee behavior=\"alternate\">the <b>best</b> <i>tag</i></marquee> & enjoy</p>";
+    const output = sanitize(input, ["p", "b"], { disallowedElements: "escape" });
+    expect(output).toBe(
+      "<p>Try &lt;marquee behavior=\"alternate\"&gt;the <b>best</b> " +
+        "&lt;i&gt;tag&lt;/i&gt;&lt;/marquee&gt; &amp; enjoy</p>"
+    );
+    expect(bodyFrom(output).textContent).toBe(
+      "Try <marquee behavior=\"alternate\">the best <i>tag</i></marquee> & enjoy"
+    );
+  });
+
+  test("escaped attribute values show as written", () => {
+    const output = sanitize("<p><marquee title='say \"hi\" & <bye>'>x</marquee></p>", ["p"], {
+      disallowedElements: "escape"
+    });
+    expect(bodyFrom(output).textContent).toBe("<marquee title=\"say \"hi\" & <bye>\">x</marquee>");
+    expect(sanitize(output, ["p"], { disallowedElements: "escape" })).toBe(output);
+  });
+
+  test("escaped output is stable under re-sanitization", () => {
+    const rules = ["p*", "b"];
+    const config = { disallowedElements: "escape", overCountElements: "escape" } as const;
+    const input = "<p>a<br><u>b</u></p><p>c</p><b>1</b><b>2</b><img src=x onerror=alert(1)>";
+    const output = sanitize(input, rules, config);
+    expect(output).toBe(
+      "<p>a&lt;br&gt;&lt;u&gt;b&lt;/u&gt;</p><p>c</p><b>1</b>&lt;b&gt;2&lt;/b&gt;" +
+        "&lt;img src=\"x\" onerror=\"alert(1)\"&gt;"
+    );
+    expect(sanitize(output, rules, config)).toBe(output);
+  });
+
+  test("escape still removes scripts", () => {
+    expect(sanitize("<p>a<script>alert(1)</script></p>", ["p"], { disallowedElements: "escape" })).toBe("<p>a</p>");
+  });
+
+  test("naming a drop-content tag explicitly keeps unwrapping it", () => {
+    const output = sanitize("<object><p>fallback</p></object>", ["p"], { disallowedElements: { object: "unwrap" } });
+    expect(output).toBe("<p>fallback</p>");
+  });
+});
+
+describe("truncate", () => {
+  test("cuts to a character budget, closing open elements", () => {
+    const output = sanitize("<p>Hello <b>wonderful</b> world</p><p>More</p>", ["p*", "b"], {
+      truncate: { limit: 10 }
+    });
+    expect(output).toBe("<p>Hello <b>wond…</b></p>");
+  });
+
+  test("leaves output within the budget unchanged", () => {
+    const input = "<p>Hello <b>world</b></p>";
+    expect(sanitize(input, ["p", "b"], { truncate: { limit: 11 } })).toBe(input);
+    expect(sanitize(input, ["p", "b"], { truncate: { by: "words", limit: 2 } })).toBe(input);
+    expect(sanitize(input, ["p", "b"], { truncate: { by: "elements", limit: 2 } })).toBe(input);
+  });
+
+  test("counts whitespace runs as one character and drops trailing whitespace at the cut", () => {
+    const output = sanitize("<p>ab</p>\n\n<p>cd   ef</p>", ["p*"], { truncate: { limit: 6 } });
+    expect(output).toBe("<p>ab</p>\n\n<p>cd…</p>");
+  });
+
+  test("cuts to a word budget", () => {
+    const output = sanitize("<p>one two <i>three four</i> five</p>", ["p", "i"], {
+      truncate: { by: "words", limit: 3 }
+    });
+    expect(output).toBe("<p>one two <i>three…</i></p>");
+  });
+
+  test("a word split across elements counts once", () => {
+    const output = sanitize("<p>un<b>break</b>able next</p>", ["p", "b"], { truncate: { by: "words", limit: 1 } });
+    expect(output).toBe("<p>un<b>break</b>able…</p>");
+  });
+
+  test("cuts to an element budget", () => {
+    const output = sanitize("<ul><li>a</li><li>b</li><li>c</li></ul><p>after</p>", ["ul", "li*", "p"], {
+      truncate: { by: "elements", limit: 3 }
+    });
+    expect(output).toBe("<ul><li>a</li><li>b</li>…</ul>");
+  });
+
+  test("never splits a surrogate pair or a character reference", () => {
+    expect(sanitize("<p>a😀b</p>", ["p"], { truncate: { limit: 2, ellipsis: "" } })).toBe("<p>a😀</p>");
+    expect(sanitize("<p>&lt;&amp;&gt;</p>", ["p"], { truncate: { limit: 2 } })).toBe("<p>&lt;&amp;…</p>");
+  });
+
+  test("does not count text that is not rendered", () => {
+    const output = sanitize("<style>.x{color:red}</style><p>abc def</p>", ["style", "style|.x|color", "p"], {
+      truncate: { limit: 3 }
+    });
+    expect(output).toBe("<style>.x {color:red\n}</style><p>abc…</p>");
+  });
+
+  test("uses a custom ellipsis as text", () => {
+    expect(sanitize("<p>abcdef</p>", ["p"], { truncate: { limit: 3, ellipsis: " <more>" } })).toBe(
+      "<p>abc &lt;more&gt;</p>"
+    );
+  });
+
+  test("applies to document output", () => {
+    expect(sanitize("<p>abcdef</p>", ["p"], { outputFormat: "document", truncate: { limit: 3 } })).toBe(
+      "<html><head></head><body><p>abc…</p></body></html>"
+    );
+  });
+
+  test("rejects invalid options", () => {
+    expect(() => compileRules(["p"], { truncate: { limit: 0 } })).toThrow(TypeError);
+    expect(() => compileRules(["p"], { truncate: { limit: 1.5 } })).toThrow(TypeError);
+    expect(() => compileRules(["p"], { truncate: { by: "lines" as never, limit: 3 } })).toThrow(TypeError);
+    expect(() => compileRules(["p"], { truncate: { limit: 3, ellipsis: 1 as never } })).toThrow(TypeError);
+  });
+});
+
 describe("convergence", () => {
   // The sanitizer re-runs until output reaches a fixed point. If it cannot
   // within maxPasses, it throws ConvergenceError rather than returning a
@@ -0,0 +1,140 @@
+import { describe, expect, test } from "vitest";
+import { Window } from "happy-dom";
+import { compileRules, createSanitizer, sanitizeInto, toSanitizerApiConfig } from "../src/index.js";
+import type { SanitizerApiConfig, SanitizerWindow } from "../src/index.js";
+
+describe("toSanitizerApiConfig", () => {
+  test("translates tags and per-tag attributes", () => {
+    const policy = compileRules(["p*", "a*", "a|href", "a|title", "img*", "img|src", "*|class", "*|data-*"], {
+      disallowedElements: { "*": "remove", div: "unwrap" }
+    });
+    expect(toSanitizerApiConfig(policy)).toEqual({
+      config: {
+        elements: [
+          { name: "a", attributes: ["href", "title"] },
+          { name: "img", attributes: ["src"] },
+          { name: "p", attributes: [] }
+        ],
+        replaceWithChildrenElements: ["div"],
+        attributes: ["class"],
+        comments: false,
+        dataAttributes: true
+      },
+      unsupported: []
+    });
+  });
+
+  test("includes common attributes and never event handlers", () => {
+    const policy = compileRules(["a*", "a|onclick"], { allowCommonAttributes: true, disallowedElements: "remove" });
+    const { config, unsupported } = toSanitizerApiConfig(policy);
+    expect(config.attributes).toEqual(["class", "id"]);
+    expect(config.elements).toEqual([{ name: "a", attributes: ["href", "rel", "target", "title"] }]);
+    expect(unsupported).toEqual([]);
+  });
+
+  test("leaves out a common attribute narrowed by a value constraint", () => {
+    const policy = compileRules(["a*", "a|target=_blank", "*|class=/note-\\w+/"], {
+      allowCommonAttributes: true,
+      disallowedElements: "remove"
+    });
+    const { config, unsupported } = toSanitizerApiConfig(policy);
+    expect(config.attributes).toEqual(["id"]);
+    expect(config.elements).toEqual([{ name: "a", attributes: ["href", "rel", "title"] }]);
+    expect(unsupported).toEqual([
+      { feature: "attribute-value", detail: "class on every element is limited to certain values" },
+      { feature: "attribute-value", detail: "target on <a> is limited to certain values" }
+    ]);
+  });
+
+  test("reports what it cannot express and leaves narrowed attributes out", () => {
+    const policy = compileRules(
+      [
+        "p",
+        "ul>li",
+        "ul*",
+        "li*",
+        "a*",
+        "a|href",
+        "a|href@scheme=https",
+        "a|target=_blank",
+        "span*",
+        "span|style",
+        "style|span|color",
+        "div|data-*",
+        "b->strong",
+        "strong*"
+      ],
+      { allowDataImageUrls: true, addRelNoopener: true, hooks: {} }
+    );
+    const { config, unsupported } = toSanitizerApiConfig(policy);
+    expect(config.elements).toContainEqual({ name: "a", attributes: [] });
+    expect(config.elements).toContainEqual({ name: "span", attributes: [] });
+    expect(new Set(unsupported.map((gap) => gap.feature))).toEqual(new Set([
+      "attribute-prefix",
+      "attribute-value",
+      "config",
+      "data-image-urls",
+      "disposition",
+      "forced-attribute",
+      "nesting",
+      "rename",
+      "style",
+      "tag-count",
+      "url-rule"
+    ]));
+    expect(unsupported).toContainEqual({ feature: "tag-count", detail: "at most 1 <p>" });
+    expect(unsupported).toContainEqual({ feature: "url-rule", detail: "href on <a> is limited by @scheme or @host rules" });
+  });
+
+  test("omits <style> and <script>", () => {
+    const policy = compileRules(["style", "style|.x|color", "script", "p*"], { disallowedElements: "remove" });
+    const { config, unsupported } = toSanitizerApiConfig(policy);
+    expect(config.elements).toEqual([{ name: "p", attributes: [] }]);
+    expect(unsupported).toEqual([
+      { feature: "style", detail: "<style> elements are filtered by style rules" }
+    ]);
+  });
+
+  test("rejects something that is not a compiled policy", () => {
+    expect(() => toSanitizerApiConfig({} as ReturnType<typeof compileRules>)).toThrow(TypeError);
+  });
+});
+
+describe("sanitizeInto", () => {
+  test("falls back to the library's own pipeline without setHTML", () => {
+    const win = new Window();
+    const container = win.document.createElement("div") as unknown as Element;
+    sanitizeInto(container, "<p onclick=\"x()\">a</p><p>b</p>", compileRules(["p"]));
+    expect(container.innerHTML).toBe("<p>a</p>");
+  });
+
+  test("uses setHTML when the policy translates completely", () => {
+    const win = new Window();
+    const { sanitizeInto: into } = createSanitizer(win as unknown as SanitizerWindow);
+    const container = win.document.createElement("div") as unknown as Element;
+    const calls: Array<[string, { sanitizer: SanitizerApiConfig }]> = [];
+    Object.assign(container, {
+      setHTML(html: string, options: { sanitizer: SanitizerApiConfig }) {
+        calls.push([html, options]);
+      }
+    });
+    const policy = compileRules(["p*", "b*"], { disallowedElements: "remove" });
+    into(container, "<p>a</p>", policy);
+    expect(calls).toEqual([["<p>a</p>", { sanitizer: toSanitizerApiConfig(policy).config }]]);
+  });
+
+  test("does not use setHTML when it would enforce less than the policy", () => {
+    const win = new Window();
+    const { sanitizeInto: into } = createSanitizer(win as unknown as SanitizerWindow);
+    const container = win.document.createElement("div") as unknown as Element;
+    let called = false;
+    Object.assign(container, {
+      setHTML() {
+        called = true;
+      }
+    });
+    into(container, "<p>a</p><p>b</p>", compileRules(["p"], { disallowedElements: "remove" }));
+    expect(called).toBe(false);
+    expect(container.innerHTML).toBe("<p>a</p>");
+  });
+});
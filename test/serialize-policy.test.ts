@@ -0,0 +1,128 @@
+import { describe, expect, test } from "vitest";
+import { PolicyFormatError, compileRules, loadPolicy, sanitizeWithPolicy, serializePolicy } from "../src/index.js";
+
+const rules = [
+  "p*",
+  "a{3}",
+  "a|href",
+  "a|href@scheme=https,mailto",
+  "a|href@host=*.example.com",
+  "a|target=_blank",
+  "a|title=/[a-z ]+/i",
+  "a|rel+=nofollow",
+  "img",
+  "img|src",
+  "img|data-*",
+  "b{1}@p",
+  "ul>li",
+  "ol>li",
+  "ul",
+  "ol",
+  "li",
+  "strong",
+  "b->strong",
+  "span",
+  "span|style",
+  "style|span|color"
+];
+const config = { misplacedElements: "wrap", overCountElements: { a: "unwrap" }, maxDepth: 64 } as const;
+
+const input =
+  "<p><a href=\"https://www.example.com/x\" target=\"_blank\" title=\"Hello there\">1</a>" +
+  "<a href=\"http://www.example.com/\" title=\"no!\">2</a><a href=\"https://evil.test/\">3</a><a>4</a></p>" +
+  "<p><b>x</b><b>y</b></p><li>z</li><img src=\"/a.png\" data-id=\"1\" data-x:y=\"2\">" +
+  "<span style=\"color: red; margin: 0\">s</span>";
+
+// Serializes the policy, applies `edit` to the parsed document, and loads it.
+function loadEdited(edit: (document: Record<string, any>) => void): unknown {
+  const document = JSON.parse(serializePolicy(compileRules(rules, config)));
+  edit(document);
+  try {
+    loadPolicy(document);
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+describe("serializePolicy and loadPolicy", () => {
+  test("a loaded policy sanitizes exactly like the compiled one", () => {
+    const policy = compileRules(rules, config);
+    const loaded = loadPolicy(serializePolicy(policy));
+    expect(sanitizeWithPolicy(input, loaded)).toBe(sanitizeWithPolicy(input, policy));
+  });
+
+  test("round-trips to the same JSON", () => {
+    const json = serializePolicy(compileRules(rules, { ...config, addRelNoopener: true }));
+    expect(serializePolicy(loadPolicy(json))).toBe(json);
+    expect(serializePolicy(loadPolicy(JSON.parse(json)))).toBe(json);
+  });
+
+  test("writes a versioned document with unlimited counts as *", () => {
+    const document = JSON.parse(serializePolicy(compileRules(["p*", "a{2}"])));
+    expect(document).toMatchObject({ format: "html-allowlist/policy", version: 1, tags: { p: "*", a: 2 } });
+  });
+
+  test("keeps the order of nesting rules, which decides the wrapper", () => {
+    const policy = loadPolicy(serializePolicy(compileRules(rules, config)));
+    expect(sanitizeWithPolicy("<li>z</li>", policy)).toBe("<ul><li>z</li></ul>");
+  });
+
+  test("refuses config that cannot be written as JSON", () => {
+    const hooks = compileRules(["p"], { hooks: { afterElement: () => undefined } });
+    expect(() => serializePolicy(hooks)).toThrow(TypeError);
+  });
+});
+
+describe("loadPolicy validation", () => {
+  test("rejects text that is not JSON", () => {
+    expect(() => loadPolicy("{")).toThrow(PolicyFormatError);
+  });
+
+  type Edit = (document: Record<string, any>) => unknown;
+  test.each<[string, Edit, string]>([
+    ["an unknown version", (d) => (d.version = 2), "/version"],
+    ["a foreign format", (d) => (d.format = "other"), "/format"],
+    ["an unknown field", (d) => (d.scripts = []), "/scripts"],
+    ["a zero count", (d) => (d.tags.a = 0), "/tags/a"],
+    ["an uppercase tag", (d) => (d.tags.P = "*"), "/tags/P"],
+    ["a scoped count of *", (d) => (d.scopedCounts.b.p = "*"), "/scopedCounts/b/p"],
+    ["an invalid pattern", (d) => (d.attributeValues.a.title[0].pattern = "("), "/attributeValues/a/title/0"],
+    ["a g flag", (d) => (d.attributeValues.a.title[0].flags = "g"), "/attributeValues/a/title/0"],
+    ["a scheme on a non-URL attribute", (d) => (d.urlSchemes.a.title = ["https"]), "/urlSchemes/a/title"],
+    ["an invalid host", (d) => (d.urlHosts.a.href = ["a b"]), "/urlHosts/a/href"],
+    [
+      "a forced event handler",
+      (d) => (d.forcedAttributes.a.onclick = [{ value: "x()", merge: false }]),
+      "/forcedAttributes/a/onclick"
+    ],
+    ["an unresolved rename", (d) => (d.renames.strong = "em"), "/renames/b"],
+    ["a renamed body", (d) => (d.renames.body = "div"), "/renames/body"],
+    ["an unknown config option", (d) => (d.config.hooks = {}), "/config/hooks"],
+    ["an out-of-range config value", (d) => (d.config.maxDepth = -1), "/config/maxDepth"],
+    ["an invalid disposition", (d) => (d.config.overCountElements = { a: "explode" }), "/config/overCountElements"]
+  ])("rejects %s", (_name, edit, path) => {
+    const error = loadEdited(edit);
+    expect(error).toBeInstanceOf(PolicyFormatError);
+    expect((error as PolicyFormatError).name).toBe("PolicyFormatError");
+    expect((error as PolicyFormatError).path).toBe(path);
+  });
+
+  test("allows forced event handlers only with dangerouslyAllowJavaScript", () => {
+    const error = loadEdited((document) => {
+      document.config.dangerouslyAllowJavaScript = true;
+      document.forcedAttributes.a.onclick = [{ value: "x()", merge: false }];
+    });
+    expect(error).toBeUndefined();
+  });
+
+  test("escapes path segments as a JSON Pointer", () => {
+    const error = loadEdited((document) => (document.tags["a/b"] = 0));
+    expect((error as PolicyFormatError).path).toBe("/tags/a~1b");
+  });
+
+  test("sanitizing still requires a compiled or loaded policy", () => {
+    const forged = JSON.parse(serializePolicy(compileRules(["p"])));
+    expect(() => sanitizeWithPolicy("<p>x</p>", forged)).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, test } from "vitest";
+import { Window } from "happy-dom";
+import { compileRules, createSanitizer } from "../src/index.js";
+import type { SanitizerWindow } from "../src/index.js";
+
+// A minimal Trusted Types shim: just enough of the browser's policy factory to
+// observe which policies get created, plus optional enforcement of
+// `require-trusted-types-for 'script'` on DOMParser, the one sink the
+// sanitizer itself uses.
+class ShimTrustedHTML {
+  constructor(private readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+type ShimOptions = { enforce?: boolean; allowedNames?: string[] };
+
+function windowWithTrustedTypes({ enforce = false, allowedNames }: ShimOptions = {}) {
+  const win = new Window();
+  const created: string[] = [];
+  let defaultPolicy: { createHTML(input: string): ShimTrustedHTML } | null = null;
+  const trustedTypes = {
+    createPolicy(name: string, options: { createHTML?: (input: string) => string }) {
+      if (allowedNames && !allowedNames.includes(name)) {
+        throw new TypeError(`Policy "${name}" disallowed by the trusted-types directive.`);
+      }
+      if (created.includes(name)) throw new TypeError(`Policy "${name}" already exists.`);
+      created.push(name);
+      const policy = {
+        name,
+        createHTML: (input: string) => new ShimTrustedHTML(options.createHTML!(input)),
+        createScriptURL: (input: string) => input
+      };
+      if (name === "default") defaultPolicy = policy;
+      return policy;
+    },
+    isHTML: (value: unknown) => value instanceof ShimTrustedHTML
+  };
+  Object.assign(win, { trustedTypes });
+  if (enforce) {
+    const Base = win.DOMParser;
+    Object.assign(win, {
+      DOMParser: class extends Base {
+        parseFromString(input: unknown, type: DOMParserSupportedType) {
+          if (!(input instanceof ShimTrustedHTML)) {
+            if (!defaultPolicy) throw new TypeError("This document requires 'TrustedHTML' assignment.");
+            input = defaultPolicy.createHTML(String(input));
+          }
+          return super.parseFromString(String(input), type);
+        }
+      }
+    });
+  }
+  return { win, created, trustedTypes };
+}
+
+describe("Trusted Types", () => {
+  test("sanitizeToTrustedHTML returns TrustedHTML from one named policy", () => {
+    const { win, created, trustedTypes } = windowWithTrustedTypes();
+    const sanitizer = createSanitizer(win as unknown as SanitizerWindow);
+    const policy = compileRules(["p"]);
+    const first = sanitizer.sanitizeToTrustedHTML("<p onclick=\"x()\">a</p>", policy);
+    const second = sanitizer.sanitizeToTrustedHTML("<p>b</p>", policy);
+    expect(trustedTypes.isHTML(first)).toBe(true);
+    expect(String(first)).toBe("<p>a</p>");
+    expect(String(second)).toBe("<p>b</p>");
+    expect(created).toEqual(["html-allowlist"]);
+  });
+
+  test("sanitizing works when DOMParser requires TrustedHTML, without a policy of DOMPurify's own", () => {
+    const { win, created } = windowWithTrustedTypes({ enforce: true, allowedNames: ["html-allowlist"] });
+    const sanitizer = createSanitizer(win as unknown as SanitizerWindow);
+    const policy = compileRules(["p*", "b"], { truncate: { limit: 3 } });
+    expect(String(sanitizer.sanitizeToTrustedHTML("<p>a</p>", policy))).toBe("<p>a</p>");
+    expect(sanitizer.sanitizeWithPolicy("<p>abcdef <b>g</b></p><script>x()</script>", policy)).toBe("<p>abc…</p>");
+    expect(created).toEqual(["html-allowlist"]);
+  });
+
+  test("sanitizing without asking for TrustedHTML creates no policy", () => {
+    const { win, created } = windowWithTrustedTypes();
+    const sanitizer = createSanitizer(win as unknown as SanitizerWindow);
+    const policy = compileRules(["p"]);
+    expect(sanitizer.sanitizeWithPolicy("<p onclick=\"x()\">a</p>", policy)).toBe("<p>a</p>");
+    expect(sanitizer.sanitizeToFragment("<p>b</p>", policy).childNodes).toHaveLength(1);
+    expect(created).toEqual([]);
+  });
+
+  test("the default policy sanitizes strings that reach an HTML sink", () => {
+    const { win, created } = windowWithTrustedTypes({ enforce: true });
+    const sanitizer = createSanitizer(win as unknown as SanitizerWindow);
+    const defaultPolicy = sanitizer.registerDefaultTrustedTypesPolicy(compileRules(["p"]));
+    expect(defaultPolicy.name).toBe("default");
+    expect(String(defaultPolicy.createHTML("<p onclick=\"x()\">hi</p><img src=x onerror=alert(1)>"))).toBe(
+      "<p>hi</p>"
+    );
+    const doc = new win.DOMParser().parseFromString("<p onclick=\"x()\">parsed</p>", "text/html");
+    expect(doc.body.innerHTML).toBe("<p>parsed</p>");
+    expect(created).toEqual(["html-allowlist", "default"]);
+  });
+
+  test("a page that does not allow the policy name keeps getting strings", () => {
+    const { win } = windowWithTrustedTypes({ allowedNames: ["default"] });
+    const sanitizer = createSanitizer(win as unknown as SanitizerWindow);
+    const policy = compileRules(["p"]);
+    expect(sanitizer.sanitizeWithPolicy("<p onclick=\"x()\">a</p>", policy)).toBe("<p>a</p>");
+    expect(() => sanitizer.sanitizeToTrustedHTML("<p>a</p>", policy)).toThrow(/html-allowlist/);
+    expect(() => sanitizer.registerDefaultTrustedTypesPolicy(policy)).toThrow(/html-allowlist/);
+  });
+
+  test("trustedTypesPolicyName names the policy the page allows", () => {
+    const { win, created } = windowWithTrustedTypes({ enforce: true, allowedNames: ["app-html", "default"] });
+    const sanitizer = createSanitizer(win as unknown as SanitizerWindow);
+    const policy = compileRules(["p"], { trustedTypesPolicyName: "app-html" });
+    expect(String(sanitizer.sanitizeToTrustedHTML("<p onclick=\"x()\">a</p>", policy))).toBe("<p>a</p>");
+    sanitizer.registerDefaultTrustedTypesPolicy(policy);
+    expect(sanitizer.sanitizeWithPolicy("<p>b</p>", compileRules(["p"]))).toBe("<p>b</p>");
+    expect(created).toEqual(["app-html", "default"]);
+    expect(() => sanitizer.sanitizeToTrustedHTML("<p>a</p>", compileRules(["p"]))).toThrow(/html-allowlist/);
+  });
+
+  test("trustedTypesPolicyName must be a policy name other than default", () => {
+    expect(() => compileRules(["p"], { trustedTypesPolicyName: "default" })).toThrow(TypeError);
+    expect(() => compileRules(["p"], { trustedTypesPolicyName: "two words" })).toThrow(TypeError);
+    expect(() => compileRules(["p"], { trustedTypesPolicyName: "" })).toThrow(TypeError);
+  });
+
+  test("a window without Trusted Types cannot produce TrustedHTML", () => {
+    const sanitizer = createSanitizer(new Window() as unknown as SanitizerWindow);
+    expect(() => sanitizer.sanitizeToTrustedHTML("<p>a</p>", compileRules(["p"]))).toThrow(/trustedTypes/);
+  });
+});